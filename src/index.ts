@@ -3,13 +3,30 @@
  * 用于安全地访问 R2 存储桶中的静态资源
  */
 
+import { DurableObject } from 'cloudflare:workers';
+
 interface Env {
   CDN_BUCKET: R2Bucket;
   ALLOWED_ORIGINS?: string;
   MAX_FILE_SIZE?: string;
   UPLOAD_ALLOWED_ORIGINS?: string; // 允许上传的来源域名
-  JWT_SECRETS?: string; // 多应用JWT密钥映射，JSON格式: {"app1": "secret1", "app2": "secret2"}
-  TOKEN_API_KEYS?: string; // Token API 密钥，用于调用 /token 接口的认证，JSON格式: {"app1": "key1", "app2": "key2"}
+  ORIGIN_POLICIES?: string; // 按路径前缀的来源策略，JSON格式: {"app1/": {"read": ["*.app1.com"], "upload": ["https://admin.app1.com"], "token": ["https://app1.com"], "blockEmptyReferer": true}}
+  JWT_SECRETS?: string; // 多应用JWT密钥映射，JSON格式: {"app1": "secret1", "app2": {"keys": [{"kid": "k1", "secret": "...", "active": true}]}}
+  TOKEN_API_KEYS?: string; // Token API 密钥，用于调用 /token 接口的认证，JSON格式: {"app1": "key1", "app2": {"key": "key2", "requireSignature": true}}
+  TOKEN_POLICIES?: string; // 每个应用的 Token 签发策略，JSON格式: {"app1": {"pathRoots": ["app1/"], "maxTtl": 3600, "maxFileSize": 10485760, "allowedExtensions": [".png"]}}
+  PROTECTED_PATHS?: string; // 受保护的路径模式（只能通过签名URL访问），逗号分隔，例如: "*/private/*,paid/*"
+  SIGNED_URL_GUARD?: DurableObjectNamespace<SignedUrlGuard>; // 签名URL使用次数（未绑定时使用本地内存，仅适用于开发和测试）
+  REVOCATIONS?: KVNamespace; // Token 吊销记录（未绑定时使用本地内存，仅适用于开发和测试）
+  NONCE_GUARD?: DurableObjectNamespace<NonceGuard>; // 请求签名 nonce 防重放（未绑定时使用本地内存，仅适用于开发和测试）
+  RATE_LIMITS?: string; // 每个应用的限流规则，JSON格式: {"app1": {"token": {"by": "ip", "limit": 10, "window": 60}, "upload": [{"by": "key", "limit": 100, "window": 60}]}}
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>; // 限流计数（未绑定时使用本地内存，仅适用于开发和测试）
+  STORAGE_QUOTAS?: string; // 每个应用的存储配额，JSON格式: {"app1": {"maxBytes": 1073741824, "maxObjects": 10000}, "*": {...}}
+  USAGE_LEDGER?: DurableObjectNamespace<UsageLedger>; // 存储用量账本（未绑定时使用本地内存，仅适用于开发和测试）
+  ADMIN_API_KEY?: string; // 管理接口（/purge）的认证密钥
+  CF_ZONE_ID?: string; // 清除全球边缘缓存使用的 Zone ID（与 CF_API_TOKEN 一起配置）
+  CF_API_TOKEN?: string; // 清除全球边缘缓存使用的 API Token（需要 Cache Purge 权限）
+  CACHE_RULES?: string; // 缓存规则，JSON格式: [{"prefix": "app1/", "extensions": [".png"], "browserTtl": 3600, "edgeTtl": 86400}]，未配置时读取 R2 中的 .config/cache-rules.json
+  HOSTING_RULES?: string; // 静态站点托管规则，JSON格式: [{"prefix": "app1/site/", "spa": true, "notFound": "404.html"}]，未配置时读取 R2 中的 .config/hosting-rules.json
 }
 
 // 支持的文件类型 MIME 映射
@@ -20,6 +37,7 @@ const CONTENT_TYPES: Record<string, string> = {
   '.jpeg': 'image/jpeg',
   '.gif': 'image/gif',
   '.webp': 'image/webp',
+  '.avif': 'image/avif',
   '.svg': 'image/svg+xml',
   '.ico': 'image/x-icon',
 
@@ -42,6 +60,12 @@ const CONTENT_TYPES: Record<string, string> = {
   '.woff2': 'font/woff2',
   '.ttf': 'font/ttf',
   '.otf': 'font/otf',
+
+  // 站点文件
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
 };
 
 // 获取文件的 Content-Type
@@ -50,710 +74,6762 @@ function getContentType(path: string): string {
   return CONTENT_TYPES[ext] || 'application/octet-stream';
 }
 
-// 验证请求来源（防盗链）
-function isOriginAllowed(request: Request, allowedOrigins: string): boolean {
-  if (allowedOrigins === '*') return true;
+// 文件头签名：签名的各部分（按偏移比较的十六进制字节）都匹配才算匹配
+type MagicSignature = { offset: number; hex: string }[];
+
+// 二进制格式的文件头签名，每种扩展名可以有多个可选签名
+const MAGIC_SIGNATURES: Record<string, MagicSignature[]> = {
+  '.png': [[{ offset: 0, hex: '89504e470d0a1a0a' }]],
+  '.jpg': [[{ offset: 0, hex: 'ffd8ff' }]],
+  '.jpeg': [[{ offset: 0, hex: 'ffd8ff' }]],
+  '.gif': [
+    [{ offset: 0, hex: '474946383761' }], // GIF87a
+    [{ offset: 0, hex: '474946383961' }], // GIF89a
+  ],
+  '.webp': [
+    [
+      { offset: 0, hex: '52494646' }, // RIFF
+      { offset: 8, hex: '57454250' }, // WEBP
+    ],
+  ],
+  '.avif': [
+    [
+      { offset: 4, hex: '66747970' }, // ftyp
+      { offset: 8, hex: '61766966' }, // avif
+    ],
+    [
+      { offset: 4, hex: '66747970' }, // ftyp
+      { offset: 8, hex: '61766973' }, // avis（AVIF 图像序列）
+    ],
+  ],
+  '.ico': [[{ offset: 0, hex: '00000100' }]],
+  '.pdf': [[{ offset: 0, hex: '255044462d' }]], // %PDF-
+  '.zip': [
+    [{ offset: 0, hex: '504b0304' }],
+    [{ offset: 0, hex: '504b0506' }], // 空压缩包
+    [{ offset: 0, hex: '504b0708' }], // 分卷压缩包
+  ],
+  '.pkg': [[{ offset: 0, hex: '78617221' }]], // xar!
+  '.mp4': [[{ offset: 4, hex: '66747970' }]], // ftyp
+  '.webm': [[{ offset: 0, hex: '1a45dfa3' }]], // EBML
+  '.woff': [[{ offset: 0, hex: '774f4646' }]], // wOFF
+  '.woff2': [[{ offset: 0, hex: '774f4632' }]], // wOF2
+  '.ttf': [
+    [{ offset: 0, hex: '00010000' }],
+    [{ offset: 0, hex: '74727565' }], // true
+  ],
+  '.otf': [
+    [{ offset: 0, hex: '4f54544f' }], // OTTO
+    [{ offset: 0, hex: '00010000' }],
+  ],
+};
 
-  const origin = request.headers.get('Origin');
-  const referer = request.headers.get('Referer');
+// ISO BMFF（ftyp 盒）格式允许的品牌：主品牌或兼容品牌之一需在列表中
+const FTYP_BRANDS: Record<string, string[]> = {
+  '.mp4': [
+    'isom',
+    'iso2',
+    'iso4',
+    'iso5',
+    'iso6',
+    'mp41',
+    'mp42',
+    'avc1',
+    'M4V ',
+    'dash',
+    'mmp4',
+    'f4v ',
+  ],
+};
 
-  if (!origin && !referer) return true; // 直接访问允许
+// 图片（AVIF / HEIF）的 ftyp 品牌：出现在主品牌或兼容品牌中时不能作为视频
+const IMAGE_FTYP_BRANDS = [
+  'avif',
+  'avis',
+  'heic',
+  'heix',
+  'heim',
+  'heis',
+  'hevc',
+  'hevx',
+  'mif1',
+  'msf1',
+];
+
+// 文件尾签名：DMG（UDIF）的 koly 块位于文件最后 512 字节的开头
+const TRAILER_SIGNATURES: Record<string, { length: number; hex: string }> = {
+  '.dmg': { length: 512, hex: '6b6f6c79' },
+};
 
-  const allowed = allowedOrigins.split(',').map((o) => o.trim());
+// 文本格式的内容检查（去掉前导空白后的文本）
+const TEXT_CONTENT_CHECKS: Record<string, (text: string) => boolean> = {
+  '.json': (text) => /^[{["\-\d]|^(true|false|null)\b/.test(text),
+  '.xml': (text) => text.startsWith('<') && !isHtmlText(text),
+  '.svg': (text) =>
+    text.startsWith('<') && /<svg[\s>]/i.test(text) && !isHtmlText(text),
+  '.html': () => true,
+  '.css': (text) => !isHtmlText(text),
+  '.js': (text) => !isHtmlText(text),
+  '.txt': (text) => !isHtmlText(text),
+};
 
-  if (origin && allowed.some((o) => origin.includes(o))) return true;
-  if (referer && allowed.some((o) => referer.includes(o))) return true;
+// 读取用于识别文件类型的文件头长度
+const CONTENT_SNIFF_SIZE = 4096;
 
-  return false;
+function isHtmlText(text: string): boolean {
+  return /^(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html|head|body|script)[\s>]/i.test(
+    text,
+  );
 }
 
-// 获取缓存配置和缓存 TTL
-function getCacheConfig(path: string): {
-  cacheControl: string;
-  cacheTtl: number;
-} {
-  // 根据文件类型设置不同的缓存策略
-  if (path.includes('/downloads/')) {
-    // 下载文件：短缓存
-    return {
-      cacheControl: 'public, max-age=3600', // 1小时
-      cacheTtl: 3600,
-    };
-  } else if (
-    path.match(/\.(png|jpg|jpeg|gif|webp|svg|ico|woff|woff2|ttf|otf)$/i)
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function matchesMagicSignature(
+  bytes: Uint8Array,
+  signature: MagicSignature,
+): boolean {
+  return signature.every(({ offset, hex }) => {
+    const expected = hexToBytes(hex);
+    if (bytes.byteLength < offset + expected.byteLength) return false;
+    return expected.every((byte, i) => bytes[offset + i] === byte);
+  });
+}
+
+// 读取 ftyp 盒中的主品牌和兼容品牌（只读取文件头范围内的部分）
+function readFtypBrands(head: Uint8Array): string[] {
+  if (head.byteLength < 16) return [];
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const boxSize = Math.min(view.getUint32(0), head.byteLength);
+  // 主品牌位于偏移 8，偏移 12 为次版本号，兼容品牌从偏移 16 开始
+  const brands = [String.fromCharCode(...head.subarray(8, 12))];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(String.fromCharCode(...head.subarray(offset, offset + 4)));
+  }
+  return brands;
+}
+
+// 检查 ftyp 品牌：包含允许的品牌，且不包含图片品牌
+function matchesFtypBrands(head: Uint8Array, allowed: string[]): boolean {
+  const brands = readFtypBrands(head);
+  return (
+    brands.some((brand) => allowed.includes(brand)) &&
+    !brands.some((brand) => IMAGE_FTYP_BRANDS.includes(brand))
+  );
+}
+
+// 检查文件头是否符合扩展名的签名（ISO BMFF 格式同时检查 ftyp 品牌）
+function matchesFileSignature(ext: string, head: Uint8Array): boolean {
+  const signatures = MAGIC_SIGNATURES[ext];
+  if (
+    !signatures ||
+    !signatures.some((signature) => matchesMagicSignature(head, signature))
   ) {
-    // 静态资源（图片、字体）：长缓存
+    return false;
+  }
+  return !FTYP_BRANDS[ext] || matchesFtypBrands(head, FTYP_BRANDS[ext]);
+}
+
+// 根据文件头识别二进制格式，无法识别时返回 null
+function sniffContentType(head: Uint8Array): string | null {
+  for (const ext of Object.keys(MAGIC_SIGNATURES)) {
+    if (matchesFileSignature(ext, head)) {
+      return CONTENT_TYPES[ext];
+    }
+  }
+  return null;
+}
+
+// 解码压缩内容的开头部分，用于识别文件类型（输入只是文件头，解码到末尾出错时返回已解出的字节）
+async function decodeContentHead(
+  head: Uint8Array,
+  encoding?: string,
+): Promise<Uint8Array> {
+  if (!encoding) return head;
+
+  const decoder = new DecompressionStream(encoding as 'gzip' | 'deflate');
+  const writer = decoder.writable.getWriter();
+  writer
+    .write(head)
+    .then(() => writer.close())
+    .catch(() => {
+      // 截断或无效的压缩数据，错误会通过读取端抛出
+    });
+
+  const reader = decoder.readable.getReader();
+  let decoded: Uint8Array = new Uint8Array(0);
+  try {
+    while (decoded.byteLength < CONTENT_SNIFF_SIZE) {
+      const result = await reader.read();
+      if (result.done) break;
+      decoded = concatBytes(decoded, result.value);
+    }
+  } catch (error) {
+    // 使用已解出的部分
+  }
+  reader.cancel().catch(() => {});
+  return decoded.subarray(0, CONTENT_SNIFF_SIZE);
+}
+
+// 校验文件头是否与扩展名一致，返回校验后的 Content-Type
+// 文件尾签名（如 DMG）需要在写入时通过 createTrailerVerifyStream 校验
+// 声明了 Content-Encoding 的文件传入解码后的文件头；压缩后无法校验文件尾，这类格式不允许压缩存储
+function verifyFileContent(
+  key: string,
+  head: Uint8Array,
+  encoding?: string,
+): { valid: boolean; contentType: string; error?: string } {
+  const ext = key.substring(key.lastIndexOf('.')).toLowerCase();
+  const contentType = getContentType(key);
+  const signatures = MAGIC_SIGNATURES[ext];
+  const textCheck = TEXT_CONTENT_CHECKS[ext];
+
+  if (encoding && TRAILER_SIGNATURES[ext]) {
     return {
-      cacheControl: 'public, max-age=31536000, immutable', // 1年
-      cacheTtl: 31536000, // 1年
+      valid: false,
+      contentType,
+      error: `Content encoding is not supported for ${ext}`,
     };
+  }
+
+  let valid: boolean;
+  if (signatures) {
+    valid = matchesFileSignature(ext, head);
+  } else if (textCheck) {
+    // 文本文件不能包含 NUL 字节
+    const text = new TextDecoder().decode(head).trimStart(); // 默认去掉 BOM
+    valid = !head.includes(0) && textCheck(text);
+  } else if (TRAILER_SIGNATURES[ext]) {
+    // 文件头可以是任意压缩数据，但不能是其他可识别的格式
+    valid = sniffContentType(head) === null;
   } else {
-    // 其他文件：中等缓存
-    return {
-      cacheControl: 'public, max-age=86400', // 1天
-      cacheTtl: 86400,
-    };
+    return { valid: false, contentType, error: 'File type not allowed' };
   }
-}
 
-// JWT 生成函数（使用 Web Crypto API）
-async function generateJWT(payload: any, secret: string): Promise<string> {
-  const header = { alg: 'HS256', typ: 'JWT' };
+  if (valid) {
+    return { valid: true, contentType };
+  }
 
-  const base64UrlEncode = (str: string): string => {
-    const base64 = btoa(str);
-    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const detected = sniffContentType(head);
+  return {
+    valid: false,
+    contentType,
+    error: `File content does not match ${ext}${detected ? ` (detected ${detected})` : ''}`,
   };
+}
 
-  const encodedHeader = base64UrlEncode(JSON.stringify(header));
-  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
-  const data = `${encodedHeader}.${encodedPayload}`;
-
-  const keyData = new TextEncoder().encode(secret);
-  const key = await crypto.subtle.importKey(
-    'raw',
-    keyData,
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign'],
+// 校验已写入 R2 的文件内容（读取文件头和文件尾），文件类型按 key 判断
+// 内容写在其他路径（如分片上传的临时路径）时通过 objectKey 指定读取的路径
+async function verifyStoredFileContent(
+  env: Env,
+  key: string,
+  size: number,
+  objectKey = key,
+): Promise<{ valid: boolean; error?: string }> {
+  const headObject = await env.CDN_BUCKET.get(
+    objectKey,
+    size > 0
+      ? { range: { offset: 0, length: Math.min(size, CONTENT_SNIFF_SIZE) } }
+      : {},
   );
-
-  const signature = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    new TextEncoder().encode(data),
+  if (!headObject) {
+    return { valid: false, error: 'File not found' };
+  }
+  // 预压缩文件（<key>.gz）按原文件的类型校验
+  const source = getPrecompressedSource(key);
+  const encoding = source?.encoding || headObject.httpMetadata?.contentEncoding;
+  const head = await decodeContentHead(
+    new Uint8Array(await headObject.arrayBuffer()),
+    encoding,
   );
-  const signatureBase64 = btoa(
-    String.fromCharCode(...new Uint8Array(signature)),
+  const contentCheck = verifyFileContent(source?.key || key, head, encoding);
+  if (!contentCheck.valid) {
+    return contentCheck;
+  }
+
+  const ext = key.substring(key.lastIndexOf('.')).toLowerCase();
+  const trailer = TRAILER_SIGNATURES[ext];
+  if (trailer) {
+    if (size < trailer.length) {
+      return { valid: false, error: `File content does not match ${ext}` };
+    }
+    const tailObject = await env.CDN_BUCKET.get(objectKey, {
+      range: { suffix: trailer.length },
+    });
+    const tail = tailObject
+      ? new Uint8Array(await tailObject.arrayBuffer())
+      : new Uint8Array(0);
+    if (
+      tail.byteLength < trailer.length ||
+      !matchesMagicSignature(tail, [{ offset: 0, hex: trailer.hex }])
+    ) {
+      return { valid: false, error: `File content does not match ${ext}` };
+    }
+  }
+
+  return { valid: true };
+}
+
+// 文件内容与扩展名不一致的响应
+function createContentMismatchResponse(error?: string): Response {
+  return jsonResponse(
+    {
+      error: error || 'File content does not match extension',
+      code: 'CONTENT_MISMATCH',
+    },
+    415,
   );
-  const encodedSignature = signatureBase64
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/, '');
+}
 
-  return `${data}.${encodedSignature}`;
+// 构建 JSON 响应
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
 }
 
-// 验证 Token API 请求
-async function validateTokenAPIRequest(
-  request: Request,
-  env: Env,
-): Promise<{ valid: boolean; error?: string; appName?: string }> {
-  // 检查 TOKEN_API_KEYS 配置
-  if (!env.TOKEN_API_KEYS) {
-    return { valid: false, error: 'TOKEN_API_KEYS not configured' };
-  }
+// 来源策略的适用范围：文件访问、上传和文件管理（上传 Token）、Token 接口（API Key）
+type OriginScope = 'read' | 'upload' | 'token';
 
-  let apiKeys: { [key: string]: string };
-  try {
-    apiKeys = JSON.parse(env.TOKEN_API_KEYS);
-  } catch (error) {
-    return { valid: false, error: 'Invalid TOKEN_API_KEYS configuration' };
-  }
+// 路径前缀的来源策略（ORIGIN_POLICIES 中的配置项），未配置的范围使用 ALLOWED_ORIGINS / UPLOAD_ALLOWED_ORIGINS
+interface OriginPolicy {
+  read?: string | string[];
+  upload?: string | string[];
+  token?: string | string[];
+  blockEmptyReferer?: boolean; // 拒绝没有 Origin 和 Referer 的请求（直接访问）
+}
 
-  // 检查 Authorization 头
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return { valid: false, error: 'Missing or invalid authorization header' };
-  }
+// 来源匹配规则：[scheme://]host[:port]
+interface OriginPattern {
+  scheme?: string; // 未指定时匹配 http 和 https
+  host: string;
+  wildcard: boolean; // *.domain 匹配所有子域名，不包括 domain 本身
+  port?: string; // 未指定时只匹配默认端口，* 匹配任意端口
+}
 
-  const apiKey = authHeader.substring(7);
+const ORIGIN_PATTERN =
+  /^(?:(https?):\/\/)?(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*|\[[0-9a-f:.]+\])(?::(\d{1,5}|\*))?\/?$/;
 
-  // 验证 API Key 并获取应用名称
-  let appName: string | undefined;
-  for (const [app, key] of Object.entries(apiKeys)) {
-    if (key === apiKey) {
-      appName = app;
-      break;
+// 解析来源规则列表（逗号分隔或数组），"*" 表示允许所有来源，无效的规则记录错误后忽略
+function parseOriginPatterns(value: string | string[]): {
+  any: boolean;
+  patterns: OriginPattern[];
+} {
+  const entries = (Array.isArray(value) ? value : value.split(','))
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  const patterns: OriginPattern[] = [];
+  for (const entry of entries) {
+    if (entry === '*') return { any: true, patterns };
+    const match = entry.match(ORIGIN_PATTERN);
+    if (!match) {
+      console.error(`Invalid origin pattern: ${entry}`);
+      continue;
     }
+    patterns.push({
+      scheme: match[1],
+      wildcard: !!match[2],
+      host: match[3],
+      port: match[4],
+    });
   }
+  return { any: false, patterns };
+}
 
-  if (!appName) {
-    return { valid: false, error: 'Invalid API key' };
+// 检查来源（URL 的 scheme、主机和端口）是否匹配规则
+function matchesOriginPattern(origin: URL, pattern: OriginPattern): boolean {
+  const scheme = origin.protocol.slice(0, -1);
+  if (
+    pattern.scheme
+      ? scheme !== pattern.scheme
+      : scheme !== 'http' && scheme !== 'https'
+  ) {
+    return false;
   }
 
-  // 验证请求来源（如果配置了）
-  if (env.UPLOAD_ALLOWED_ORIGINS) {
-    const origin = request.headers.get('Origin');
-    const referer = request.headers.get('Referer');
+  // 比较实际端口（URL 会省略默认端口）
+  const defaultPort = scheme === 'https' ? '443' : '80';
+  if (
+    pattern.port !== '*' &&
+    (origin.port || defaultPort) !== (pattern.port || defaultPort)
+  ) {
+    return false;
+  }
 
-    if (origin || referer) {
-      const allowed = env.UPLOAD_ALLOWED_ORIGINS.split(',').map((o) =>
-        o.trim(),
-      );
-      const isAllowed =
-        (origin && allowed.some((o) => origin.includes(o))) ||
-        (referer && allowed.some((o) => referer.includes(o)));
+  const host = origin.hostname.toLowerCase();
+  return pattern.wildcard
+    ? host.endsWith(`.${pattern.host}`)
+    : host === pattern.host;
+}
 
-      if (!isAllowed) {
-        return { valid: false, error: 'Origin not allowed' };
-      }
+// 检查来源是否被规则列表允许（未配置时允许所有来源）
+function isOriginAllowedBy(
+  value: string | string[] | undefined,
+  origin: URL | null,
+): boolean {
+  if (value === undefined) return true;
+  const { any, patterns } = parseOriginPatterns(value);
+  if (any) return true;
+  return (
+    !!origin &&
+    patterns.some((pattern) => matchesOriginPattern(origin, pattern))
+  );
+}
+
+// 解析 Origin / Referer 中的来源，"null" 或无法解析时返回 null
+function parseRequestOrigin(value: string): URL | null {
+  try {
+    return new URL(new URL(value).origin);
+  } catch (error) {
+    return null;
+  }
+}
+
+// 解析 ORIGIN_POLICIES
+function getOriginPolicies(env: Env): {
+  policies?: Record<string, OriginPolicy>;
+  error?: string;
+} {
+  if (!env.ORIGIN_POLICIES) return { policies: {} };
+  try {
+    const policies = JSON.parse(env.ORIGIN_POLICIES);
+    if (!policies || typeof policies !== 'object' || Array.isArray(policies)) {
+      throw new Error('ORIGIN_POLICIES must be an object');
     }
+    return { policies };
+  } catch (error) {
+    console.error('Invalid ORIGIN_POLICIES configuration:', error);
+    return { error: 'Invalid ORIGIN_POLICIES configuration' };
   }
+}
 
-  return { valid: true, appName };
+// 路径适用的来源规则：前缀最长的策略中配置的规则，未配置时使用全局配置
+function getOriginRules(
+  env: Env,
+  policies: Record<string, OriginPolicy>,
+  scope: OriginScope,
+  key: string,
+): { value?: string | string[]; blockEmptyReferer?: boolean } {
+  const prefix = Object.keys(policies)
+    .filter((candidate) => key.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  const policy = prefix !== undefined ? policies[prefix] : undefined;
+
+  return {
+    value:
+      policy?.[scope] ??
+      (scope === 'read'
+        ? env.ALLOWED_ORIGINS || '*'
+        : env.UPLOAD_ALLOWED_ORIGINS || undefined),
+    blockEmptyReferer: policy?.blockEmptyReferer,
+  };
 }
 
-// 处理 Token 生成请求
-async function handleTokenRequest(
+// 验证请求来源（防盗链、上传来源限制）：优先使用 Origin，没有时使用 Referer
+// 没有来源的请求（直接访问）默认允许，配置了上传来源限制时上传请求必须带有来源
+function checkOriginPolicy(
   request: Request,
   env: Env,
-): Promise<Response> {
-  try {
-    // 验证 API 请求
-    const validation = await validateTokenAPIRequest(request, env);
-    if (!validation.valid || !validation.appName) {
-      return new Response(
-        JSON.stringify({
-          error: validation.error || 'Unauthorized',
-          code: 'UNAUTHORIZED',
-        }),
-        {
-          status: 401,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
+  scope: OriginScope,
+  key: string,
+): { allowed: boolean; error?: string } {
+  const { policies, error } = getOriginPolicies(env);
+  if (!policies) return { allowed: false, error };
+
+  const rules = getOriginRules(env, policies, scope, key);
+  const source =
+    request.headers.get('Origin') || request.headers.get('Referer');
+  if (!source) {
+    const block =
+      rules.blockEmptyReferer ??
+      (scope === 'upload' && rules.value !== undefined);
+    return block
+      ? { allowed: false, error: 'Origin verification failed' }
+      : { allowed: true };
+  }
 
-    const appName = validation.appName;
+  return isOriginAllowedBy(rules.value, parseRequestOrigin(source))
+    ? { allowed: true }
+    : {
+        allowed: false,
+        error: `Origin not allowed${scope === 'upload' ? ' for uploads' : ''}`,
+      };
+}
 
-    // 检查 JWT_SECRETS 配置
-    if (!env.JWT_SECRETS) {
-      return new Response(
-        JSON.stringify({
-          error: 'JWT_SECRETS not configured',
-          code: 'CONFIG_ERROR',
-        }),
-        {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
+// CORS 允许的来源：请求的 Origin 符合来源策略时返回该 Origin
+// 不针对具体文件的接口（/token、/list 等）只要符合任一路径前缀的策略即可，具体权限由接口验证
+function getCorsOrigin(
+  request: Request,
+  env: Env,
+  scope: OriginScope,
+  key?: string,
+): string | null {
+  const origin = request.headers.get('Origin');
+  const originUrl = origin ? parseRequestOrigin(origin) : null;
+  const { policies } = getOriginPolicies(env);
+  if (!originUrl || !policies) return null;
+
+  const values =
+    key !== undefined
+      ? [getOriginRules(env, policies, scope, key).value]
+      : [
+          getOriginRules(env, {}, scope, '').value,
+          ...Object.values(policies)
+            .map((policy) => policy[scope])
+            .filter((value) => value !== undefined),
+        ];
+  return values.some((value) => isOriginAllowedBy(value, originUrl))
+    ? origin
+    : null;
+}
 
-    let jwtSecrets: { [key: string]: string };
-    try {
-      jwtSecrets = JSON.parse(env.JWT_SECRETS);
-    } catch (error) {
-      return new Response(
-        JSON.stringify({
-          error: 'Invalid JWT_SECRETS configuration',
-          code: 'CONFIG_ERROR',
-        }),
-        {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
+// 设置 CORS 响应头：回显允许的 Origin，响应随 Origin 变化（追加到 Vary，不覆盖已有的值）
+function setCorsHeaders(headers: Headers, origin: string | null): void {
+  headers.append('Vary', 'Origin');
+  if (origin) {
+    headers.set('Access-Control-Allow-Origin', origin);
+  } else {
+    headers.delete('Access-Control-Allow-Origin');
+  }
+}
 
-    const appSecret = jwtSecrets[appName];
-    if (!appSecret) {
-      return new Response(
-        JSON.stringify({
-          error: `No JWT secret configured for app: ${appName}`,
-          code: 'CONFIG_ERROR',
-        }),
-        {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
+// CORS 预检允许的请求头：下载（Range、条件请求）、上传元数据、校验和、写入条件
+const CORS_ALLOWED_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'Range',
+  'If-Range',
+  'If-Match',
+  'If-None-Match',
+  'If-Modified-Since',
+  'X-Checksum-SHA256',
+  'Content-Digest',
+  'X-Download-Filename',
+  'X-Upload-Content-Disposition',
+  'X-Upload-Content-Encoding',
+  'X-Upload-Content-Language',
+  'X-Upload-Cache-Control',
+  'X-Upload-Precompress',
+];
+
+// 预检响应的 Access-Control-Allow-Headers：固定列表加上请求中合法的 X-Meta-* 自定义元数据头
+function getCorsAllowedHeaders(request: Request): string {
+  const metadataHeaders = (
+    request.headers.get('Access-Control-Request-Headers') || ''
+  )
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(
+      (name) =>
+        name.startsWith(CUSTOM_METADATA_PREFIX) &&
+        CUSTOM_METADATA_NAME_PATTERN.test(
+          name.slice(CUSTOM_METADATA_PREFIX.length),
+        ),
+    );
+  return [...CORS_ALLOWED_HEADERS, ...metadataHeaders].join(', ');
+}
 
-    // 解析请求参数
-    let params: {
-      maxAge?: number;
-      maxFileSize?: number;
-      allowedExtensions?: string[];
-      customPath?: string;
-    };
+// 文件响应的 CORS 头（请求已通过防盗链验证）：不写入边缘缓存，每个请求按自己的 Origin 设置
+function setFileCorsHeaders(headers: Headers, request: Request): void {
+  const origin = request.headers.get('Origin');
+  setCorsHeaders(headers, origin);
+  if (!origin) return;
+
+  headers.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
+  headers.set('Access-Control-Max-Age', '86400');
+  headers.set(
+    'Access-Control-Expose-Headers',
+    [
+      'Content-Length',
+      'Content-Range',
+      'Accept-Ranges',
+      'ETag',
+      'Content-Disposition',
+      ...[...headers.keys()].filter((name) =>
+        name.startsWith(CUSTOM_METADATA_PREFIX),
+      ),
+    ].join(', '),
+  );
+}
 
-    const contentType = request.headers.get('Content-Type') || '';
+// 请求适用的来源策略范围和文件路径（不针对具体文件的接口没有路径）
+function getRequestOriginScope(url: URL): {
+  scope: OriginScope | null;
+  key?: string;
+} {
+  const path = url.pathname;
+  if (['/token', '/token/revoke', '/sign', '/usage'].includes(path)) {
+    return { scope: 'token' };
+  }
+  if (path === '/upload' || path === '/files' || path === '/list') {
+    return { scope: 'upload' };
+  }
+  if (path.startsWith('/upload/')) {
+    return { scope: 'upload', key: path.slice(8) };
+  }
+  if (path.startsWith('/files/')) {
+    return { scope: 'upload', key: path.slice(7) };
+  }
+  if (path === '/' || path === '/health' || path === '/purge') {
+    return { scope: null };
+  }
+  return { scope: 'read', key: path.slice(1) };
+}
 
-    if (contentType.includes('application/json')) {
-      const body = await request.json();
-      params = body;
-    } else {
-      // 支持 URL 参数
-      const url = new URL(request.url);
-      params = {
-        maxAge: url.searchParams.get('maxAge')
-          ? parseInt(url.searchParams.get('maxAge')!)
-          : undefined,
-        maxFileSize: url.searchParams.get('maxFileSize')
-          ? parseInt(url.searchParams.get('maxFileSize')!)
-          : undefined,
-        allowedExtensions: url.searchParams.get('allowedExtensions')
-          ? url.searchParams.get('allowedExtensions')!.split(',')
-          : undefined,
-        customPath: url.searchParams.get('customPath') || undefined,
-      };
-    }
+// 为接口响应添加 CORS 头
+function withCorsHeaders(response: Response, origin: string | null): Response {
+  const headers = new Headers(response.headers);
+  setCorsHeaders(headers, origin);
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
 
-    // 设置默认值和限制
-    const maxAge = Math.min(params.maxAge || 3600, 86400); // 最大 24 小时
-    const maxSize = Math.min(
-      params.maxFileSize || parseInt(env.MAX_FILE_SIZE || '10485760'),
-      parseInt(env.MAX_FILE_SIZE || '104857600'),
-    ); // 默认 10MB，最大 100MB
+// 缓存规则：按顺序匹配，第一条匹配的规则生效；prefix、glob、extensions 同时配置时需全部满足，都不配置时匹配所有文件
+interface CacheRule {
+  prefix?: string;
+  glob?: string; // * 匹配任意字符（包括 /）
+  extensions?: string[];
+  browserTtl?: number; // 浏览器缓存时间（Cache-Control 的 max-age，秒）
+  edgeTtl?: number; // 边缘缓存时间（CDN-Cache-Control 的 max-age，秒），默认与 browserTtl 相同
+  immutable?: boolean;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  bypass?: boolean; // 不使用边缘缓存
+}
 
-    // 默认允许的扩展名（图片）
-    const allowedExtensions = params.allowedExtensions || [
+// 默认缓存规则：下载文件短缓存，图片和字体长缓存，其他文件中等缓存
+const DEFAULT_CACHE_RULES: CacheRule[] = [
+  { glob: '*/downloads/*', browserTtl: 3600 }, // 1小时
+  { extensions: ['.html'], browserTtl: 0, edgeTtl: 300 }, // 浏览器每次验证，边缘缓存5分钟（更新时自动清除）
+  {
+    extensions: [
+      '.png',
       '.jpg',
       '.jpeg',
-      '.png',
+      '.gif',
       '.webp',
-      '.heic',
-      '.heif',
-    ];
+      '.avif',
+      '.svg',
+      '.ico',
+      '.woff',
+      '.woff2',
+      '.ttf',
+      '.otf',
+    ],
+    browserTtl: 31536000, // 1年
+    immutable: true,
+  },
+  { browserTtl: 86400 }, // 1天
+];
+
+// 内部配置文件的存储前缀（保留路径，禁止直接上传和访问）
+const CONFIG_PREFIX = '.config/';
+
+// 未配置 CACHE_RULES / HOSTING_RULES 时从 R2 读取的规则文件
+const CACHE_RULES_OBJECT_KEY = `${CONFIG_PREFIX}cache-rules.json`;
+const HOSTING_RULES_OBJECT_KEY = `${CONFIG_PREFIX}hosting-rules.json`;
+const CONFIG_RULES_RELOAD_INTERVAL = 60 * 1000; // 1分钟
+
+// 从 R2 读取的规则（按规则文件）
+const configRulesCache = new Map<
+  string,
+  { rules: unknown[]; loadedAt: number }
+>();
+
+// 读取规则配置：优先使用环境变量，其次是 R2 中的规则文件（每分钟重新读取），都没有时使用默认规则
+// 配置无效时记录错误并使用默认规则（R2 文件读取失败时沿用上次的规则），不影响文件访问
+async function loadConfigRules<T>(
+  env: Env,
+  name: string,
+  value: string | undefined,
+  objectKey: string,
+  parse: (json: string) => T[],
+  defaults: T[],
+): Promise<T[]> {
+  if (value) {
+    try {
+      return parse(value);
+    } catch (error) {
+      console.error(`Invalid ${name} configuration:`, error);
+      return defaults;
+    }
+  }
 
-    // 限制上传路径
-    const customPath = params.customPath || `${appName}/*`;
+  const now = Date.now();
+  const cached = configRulesCache.get(objectKey);
+  if (cached && now - cached.loadedAt < CONFIG_RULES_RELOAD_INTERVAL) {
+    return cached.rules as T[];
+  }
+
+  let rules = defaults;
+  try {
+    const object = await env.CDN_BUCKET.get(objectKey);
+    if (object) {
+      rules = parse(await object.text());
+    }
+  } catch (error) {
+    console.error(`Failed to load ${objectKey}:`, error);
+    rules = (cached?.rules as T[]) || defaults;
+  }
+  configRulesCache.set(objectKey, { rules, loadedAt: now });
+  return rules;
+}
+
+// 解析缓存规则配置：规则数组或 {"rules": [...]}
+function parseCacheRules(json: string): CacheRule[] {
+  const config = JSON.parse(json);
+  const rules = Array.isArray(config) ? config : config?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Cache rules must be an array');
+  }
+  return rules.map((rule: CacheRule) => ({
+    ...rule,
+    extensions: rule.extensions?.map((ext) => ext.toLowerCase()),
+  }));
+}
+
+// 获取缓存规则：优先使用 CACHE_RULES，其次是 R2 中的规则文件，都没有时使用默认规则
+async function getCacheRules(env: Env): Promise<CacheRule[]> {
+  return loadConfigRules(
+    env,
+    'CACHE_RULES',
+    env.CACHE_RULES,
+    CACHE_RULES_OBJECT_KEY,
+    parseCacheRules,
+    DEFAULT_CACHE_RULES,
+  );
+}
+
+// 检查文件是否匹配缓存规则
+function matchesCacheRule(rule: CacheRule, key: string): boolean {
+  if (rule.prefix !== undefined && !key.startsWith(rule.prefix)) return false;
+  if (rule.glob !== undefined && !matchPathPattern(key, rule.glob)) {
+    return false;
+  }
+  if (rule.extensions) {
+    const ext = key.substring(key.lastIndexOf('.')).toLowerCase();
+    if (!rule.extensions.includes(ext)) return false;
+  }
+  return true;
+}
+
+// 根据 TTL 和附加指令生成缓存控制头
+function formatCacheControl(maxAge: number, rule: CacheRule): string {
+  const directives = ['public', `max-age=${maxAge}`];
+  if (rule.immutable) directives.push('immutable');
+  if (rule.staleWhileRevalidate !== undefined) {
+    directives.push(`stale-while-revalidate=${rule.staleWhileRevalidate}`);
+  }
+  if (rule.staleIfError !== undefined) {
+    directives.push(`stale-if-error=${rule.staleIfError}`);
+  }
+  return directives.join(', ');
+}
+
+// 文件的缓存策略
+interface CachePolicy {
+  cacheControl: string;
+  cdnCacheControl?: string;
+  bypass: boolean; // 不写入、不读取边缘缓存
+}
+
+// 获取文件的缓存策略：文件自身的 Cache-Control（R2 httpMetadata）优先于缓存规则
+function getCachePolicy(
+  rules: CacheRule[],
+  key: string,
+  objectCacheControl?: string,
+): CachePolicy {
+  if (objectCacheControl) {
+    return {
+      cacheControl: objectCacheControl,
+      bypass: /\b(no-store|private)\b/i.test(objectCacheControl),
+    };
+  }
+
+  const rule = rules.find((candidate) => matchesCacheRule(candidate, key));
+  if (!rule) {
+    return { cacheControl: 'no-cache', bypass: true };
+  }
+
+  const browserTtl = rule.browserTtl ?? 0;
+  return {
+    cacheControl: formatCacheControl(browserTtl, rule),
+    cdnCacheControl: rule.bypass
+      ? 'no-store'
+      : formatCacheControl(rule.edgeTtl ?? browserTtl, rule),
+    bypass: rule.bypass === true,
+  };
+}
+
+// 静态站点托管规则：prefix 下的目录路径返回 index 文档，可选前端路由回退和自定义 404 页面
+interface HostingRule {
+  prefix: string; // 站点根路径，以 / 结尾
+  index?: string; // 目录的默认文档，默认 index.html
+  trailingSlash?: boolean; // 目录路径缺少结尾的 / 时重定向，默认 true
+  spa?: boolean; // 没有扩展名的路径（前端路由）返回站点根目录的 index 文档
+  notFound?: string | false; // 站点根目录下的 404 页面，默认 404.html，false 表示不使用
+}
+
+// 站点文件名：不能包含路径分隔符
+const HOSTING_DOCUMENT_PATTERN = /^[^/\\]+\.[A-Za-z0-9]+$/;
+
+// 站点文件类型：只能上传到托管规则的 prefix 下，其他路径不能存放同源的页面和脚本
+const HOSTING_FILE_EXTENSIONS = ['.html', '.css', '.js', '.txt'];
+
+// 解析托管规则配置：规则数组或 {"rules": [...]}
+function parseHostingRules(json: string): HostingRule[] {
+  const config = JSON.parse(json);
+  const rules = Array.isArray(config) ? config : config?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Hosting rules must be an array');
+  }
+  for (const rule of rules as HostingRule[]) {
+    if (
+      typeof rule?.prefix !== 'string' ||
+      !rule.prefix.endsWith('/') ||
+      rule.prefix.startsWith('/') ||
+      isReservedKey(rule.prefix)
+    ) {
+      throw new Error(`Invalid hosting prefix: ${rule?.prefix}`);
+    }
+    for (const document of [rule.index, rule.notFound]) {
+      if (
+        document !== undefined &&
+        document !== false &&
+        !HOSTING_DOCUMENT_PATTERN.test(document)
+      ) {
+        throw new Error(`Invalid hosting document: ${document}`);
+      }
+    }
+  }
+  return rules;
+}
+
+// 获取托管规则：优先使用 HOSTING_RULES，其次是 R2 中的规则文件，都没有时不托管站点
+async function getHostingRules(env: Env): Promise<HostingRule[]> {
+  return loadConfigRules(
+    env,
+    'HOSTING_RULES',
+    env.HOSTING_RULES,
+    HOSTING_RULES_OBJECT_KEY,
+    parseHostingRules,
+    [],
+  );
+}
+
+// 查找路径所属的站点（前缀最长的规则），站点根路径缺少结尾的 / 时也匹配
+function getHostingRule(
+  rules: HostingRule[],
+  key: string,
+): HostingRule | undefined {
+  return rules
+    .filter((rule) => key.startsWith(rule.prefix) || `${key}/` === rule.prefix)
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+}
+
+// 解析站点路径：目录路径（以 / 结尾）返回 index 文档；没有扩展名的路径存在同名目录时重定向到带 / 的路径，
+// 否则在 SPA 模式下返回站点根目录的 index 文档（前端路由）
+async function resolveHostingKey(
+  env: Env,
+  rule: HostingRule,
+  key: string,
+): Promise<{ key: string; redirect?: boolean }> {
+  const index = rule.index || 'index.html';
+  if (key.endsWith('/')) {
+    return { key: `${key}${index}` };
+  }
+
+  const name = key.substring(key.lastIndexOf('/') + 1);
+  if (name.includes('.')) {
+    return { key };
+  }
+  if (
+    rule.trailingSlash !== false &&
+    (await env.CDN_BUCKET.head(`${key}/${index}`))
+  ) {
+    return { key, redirect: true };
+  }
+  if (rule.spa) {
+    return { key: `${rule.prefix}${index}` };
+  }
+  return { key };
+}
+
+// 文件不存在的响应：站点配置了 404 页面且页面存在时返回该页面，否则返回纯文本
+async function createNotFoundResponse(
+  env: Env,
+  request: Request,
+  rule: HostingRule | undefined,
+): Promise<Response> {
+  const notFound = rule ? (rule.notFound ?? '404.html') : false;
+  if (notFound) {
+    const pageKey = `${rule!.prefix}${notFound}`;
+    const page: R2Object | R2ObjectBody | null =
+      request.method === 'HEAD'
+        ? await env.CDN_BUCKET.head(pageKey)
+        : await env.CDN_BUCKET.get(pageKey);
+    if (page) {
+      const body =
+        request.method === 'HEAD' ? null : (page as R2ObjectBody).body;
+      return new Response(body, {
+        status: 404,
+        headers: {
+          'Content-Type':
+            page.httpMetadata?.contentType || getContentType(pageKey),
+          'Cache-Control': 'no-cache',
+          'X-Content-Type-Options': 'nosniff',
+        },
+      });
+    }
+  }
+  return new Response('Not Found', { status: 404 });
+}
+
+// 存储的内容已按 Content-Encoding 编码时原样返回，不再由运行时压缩
+function getBodyEncoding(headers: Headers): 'manual' | 'automatic' {
+  return headers.has('Content-Encoding') ? 'manual' : 'automatic';
+}
+
+// 支持格式协商的原图扩展名，变体存储为 <key>.avif / <key>.webp
+const NEGOTIABLE_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+
+// 图片变体格式（按优先级）
+const IMAGE_VARIANT_FORMATS = ['avif', 'webp'];
+
+// 检查文件是否为支持格式协商的原图
+function isNegotiableImage(key: string): boolean {
+  const ext = key.substring(key.lastIndexOf('.')).toLowerCase();
+  return NEGOTIABLE_IMAGE_EXTENSIONS.includes(ext);
+}
+
+// 解析 Accept / Accept-Encoding 这类带 q 值的列表，返回各项（小写）的 q 值，无效的 q 值视为 0
+function parseQualityList(header: string | null): Map<string, number> {
+  const qualities = new Map<string, number>();
+  if (!header) return qualities;
+
+  for (const part of header.split(',')) {
+    const [name, ...params] = part.split(';').map((p) => p.trim());
+    if (!name) continue;
+    const q = params.find((param) => param.toLowerCase().startsWith('q='));
+    qualities.set(name.toLowerCase(), q ? parseFloat(q.slice(2)) || 0 : 1);
+  }
+  return qualities;
+}
+
+// 解析 Accept 中客户端明确支持的变体格式（按优先级），q=0 表示不支持
+function getAcceptedImageFormats(accept: string | null): string[] {
+  const qualities = parseQualityList(accept);
+  return IMAGE_VARIANT_FORMATS.filter(
+    (format) => (qualities.get(`image/${format}`) ?? 0) > 0,
+  );
+}
+
+// 预压缩文件的内容编码和扩展名（按优先级），存储为 <key>.br / <key>.gz
+const PRECOMPRESSED_ENCODINGS = [
+  { encoding: 'br', suffix: '.br' },
+  { encoding: 'gzip', suffix: '.gz' },
+];
+
+// 客户端不支持时可以在 Worker 中解压的内容编码
+const DECOMPRESSIBLE_ENCODINGS = ['gzip', 'deflate'];
+
+// 可压缩的文本类型（Content-Type）
+const COMPRESSIBLE_CONTENT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'image/svg+xml',
+];
+
+// 检查文件是否为支持预压缩的文本类型
+function isCompressible(key: string): boolean {
+  const contentType = getContentType(key);
+  return (
+    contentType.startsWith('text/') ||
+    COMPRESSIBLE_CONTENT_TYPES.includes(contentType)
+  );
+}
+
+// 可以通过上传接口写入的预压缩文件（<key>.gz），返回原文件路径和编码
+// 上传的内容按原文件的类型校验解码后的文件头；Worker 无法解码 Brotli，.br 文件不能通过上传接口写入
+function getPrecompressedSource(
+  key: string,
+): { key: string; encoding: string } | null {
+  const precompressed = PRECOMPRESSED_ENCODINGS.find(
+    ({ encoding, suffix }) =>
+      DECOMPRESSIBLE_ENCODINGS.includes(encoding) && key.endsWith(suffix),
+  );
+  if (!precompressed) return null;
+  const source = key.slice(0, -precompressed.suffix.length);
+  return isCompressible(source)
+    ? { key: source, encoding: precompressed.encoding }
+    : null;
+}
+
+// 检查 Accept-Encoding 是否接受指定编码（未列出时按 * 判断）
+function isEncodingAccepted(
+  qualities: Map<string, number>,
+  encoding: string,
+): boolean {
+  return (qualities.get(encoding.toLowerCase()) ?? qualities.get('*') ?? 0) > 0;
+}
+
+// 边缘缓存的缓存键：忽略查询参数，同一文件的所有 URL 变体共享一个缓存条目，覆盖或删除时可以完整清除
+// 原图和文本文件按协商结果（客户端支持的变体格式或内容编码）区分缓存条目，不会把客户端无法解码的格式返回给它
+function getCacheKey(origin: string, key: string, variant = ''): Request {
+  return new Request(
+    variant
+      ? `${origin}/${key}?variant=${encodeURIComponent(variant)}`
+      : `${origin}/${key}`,
+    { method: 'GET' },
+  );
+}
+
+// 所有可能的协商结果：变体的非空子集（按优先级排列）
+function getVariantCombinations(variants: string[]): string[] {
+  const combinations: string[] = [];
+  for (let mask = 1; mask < 1 << variants.length; mask++) {
+    combinations.push(
+      variants.filter((_, index) => mask & (1 << index)).join(','),
+    );
+  }
+  return combinations;
+}
+
+// 文件的所有缓存键：原图和文本文件包括每种协商结果的缓存条目，
+// 变体（<key>.avif、<key>.gz 等）变化时也需要清除原文件的协商结果
+function getCacheKeys(origin: string, key: string): Request[] {
+  const cacheKeys = [getCacheKey(origin, key)];
+
+  const variantFormat = IMAGE_VARIANT_FORMATS.find((format) =>
+    key.endsWith(`.${format}`),
+  );
+  const image = variantFormat ? key.slice(0, -(variantFormat.length + 1)) : key;
+  if (isNegotiableImage(image)) {
+    for (const variant of getVariantCombinations(IMAGE_VARIANT_FORMATS)) {
+      cacheKeys.push(getCacheKey(origin, image, variant));
+    }
+  }
+
+  const precompressed = PRECOMPRESSED_ENCODINGS.find(({ suffix }) =>
+    key.endsWith(suffix),
+  );
+  const text = precompressed ? key.slice(0, -precompressed.suffix.length) : key;
+  if (isCompressible(text)) {
+    const encodings = PRECOMPRESSED_ENCODINGS.map(({ encoding }) => encoding);
+    for (const variant of getVariantCombinations(encodings)) {
+      cacheKeys.push(getCacheKey(origin, text, variant));
+    }
+  }
+  return cacheKeys;
+}
+
+// 检查路径是否为原文件的变体（<key>.avif、<key>.webp）或预压缩文件（<key>.br、<key>.gz）
+// 新建变体时原文件的协商结果可能已缓存，同样需要清除
+function isNegotiatedVariantKey(key: string): boolean {
+  const variantFormat = IMAGE_VARIANT_FORMATS.find((format) =>
+    key.endsWith(`.${format}`),
+  );
+  if (
+    variantFormat &&
+    isNegotiableImage(key.slice(0, -(variantFormat.length + 1)))
+  ) {
+    return true;
+  }
+
+  const precompressed = PRECOMPRESSED_ENCODINGS.find(({ suffix }) =>
+    key.endsWith(suffix),
+  );
+  return (
+    !!precompressed &&
+    isCompressible(key.slice(0, -precompressed.suffix.length))
+  );
+}
+
+// Cloudflare API 单次清除缓存请求的最大 URL / 前缀数量
+const ZONE_PURGE_BATCH_SIZE = 30;
+
+// 通过 Cloudflare API 清除全球边缘缓存（未配置 CF_ZONE_ID 和 CF_API_TOKEN 时跳过）
+async function purgeZoneCache(
+  env: Env,
+  targets: { files?: string[]; prefixes?: string[] },
+): Promise<boolean> {
+  if (!env.CF_ZONE_ID || !env.CF_API_TOKEN) return false;
+
+  for (const [field, values] of Object.entries(targets)) {
+    for (let i = 0; i < values.length; i += ZONE_PURGE_BATCH_SIZE) {
+      const response = await fetch(
+        `https://api.cloudflare.com/client/v4/zones/${env.CF_ZONE_ID}/purge_cache`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${env.CF_API_TOKEN}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            [field]: values.slice(i, i + ZONE_PURGE_BATCH_SIZE),
+          }),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `Cache purge failed: ${response.status} ${await response.text()}`,
+        );
+      }
+    }
+  }
+  return true;
+}
+
+// 清除文件的边缘缓存：Cache API 只能清除当前数据中心，全球缓存通过 Cloudflare API 清除
+async function purgeCachedFiles(
+  env: Env,
+  origin: string,
+  keys: string[],
+): Promise<boolean> {
+  if (keys.length === 0) return false;
+
+  const cacheKeys = keys.flatMap((key) => getCacheKeys(origin, key));
+  const cache = caches.default;
+  await Promise.all(cacheKeys.map((cacheKey) => cache.delete(cacheKey)));
+  return purgeZoneCache(env, {
+    files: cacheKeys.map((cacheKey) => cacheKey.url),
+  });
+}
+
+// 字节范围（Range 请求解析结果）
+interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+// 单个请求允许的最大范围数（合并后），超出则忽略 Range 返回完整文件
+const MAX_RANGES_PER_REQUEST = 16;
+
+// 解析 Range 请求头
+// 返回 null 表示应忽略 Range（语法错误或不支持），'unsatisfiable' 表示应返回 416
+function parseRangeHeader(
+  rangeHeader: string,
+  size: number,
+): ByteRange[] | 'unsatisfiable' | null {
+  const match = rangeHeader.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const part of match[1].split(',')) {
+    const spec = part.trim();
+    if (!spec) continue;
+
+    const m = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!m || (!m[1] && !m[2])) return null;
+
+    if (!m[1]) {
+      // 后缀范围：bytes=-500 表示最后 500 字节
+      const suffix = parseInt(m[2], 10);
+      if (suffix === 0 || size === 0) continue;
+      const start = Math.max(size - suffix, 0);
+      ranges.push({ offset: start, length: size - start });
+      continue;
+    }
+
+    const start = parseInt(m[1], 10);
+    const requestedEnd = m[2] ? parseInt(m[2], 10) : Infinity;
+    if (requestedEnd < start) return null;
+    if (start >= size) continue;
+
+    const end = Math.min(requestedEnd, size - 1);
+    ranges.push({ offset: start, length: end - start + 1 });
+  }
+
+  if (ranges.length === 0) return 'unsatisfiable';
+
+  // 按起始位置排序并合并重叠或相邻的范围（RFC 7233 允许合并）
+  ranges.sort((a, b) => a.offset - b.offset);
+  const merged: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.offset <= last.offset + last.length) {
+      const end = Math.max(
+        last.offset + last.length,
+        range.offset + range.length,
+      );
+      last.length = end - last.offset;
+    } else {
+      merged.push(range);
+    }
+  }
+
+  if (merged.length > MAX_RANGES_PER_REQUEST) return null;
+
+  return merged;
+}
+
+// 检查 If-Range 条件：不满足时应忽略 Range 返回完整文件
+function isIfRangeSatisfied(
+  request: Request,
+  etag: string | null,
+  lastModified: string | null,
+): boolean {
+  const ifRange = request.headers.get('If-Range');
+  if (!ifRange) return true;
+
+  const value = ifRange.trim();
+
+  // ETag 形式：必须强比较，弱 ETag 永远不匹配
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return (
+      !value.startsWith('W/') &&
+      !!etag &&
+      !etag.startsWith('W/') &&
+      value === etag
+    );
+  }
+
+  // HTTP 日期形式：必须与 Last-Modified 完全一致
+  if (!lastModified) return false;
+  const date = Date.parse(value);
+  return !isNaN(date) && date === Date.parse(lastModified);
+}
+
+// 416 Range Not Satisfiable 响应
+function createRangeNotSatisfiableResponse(
+  size: number,
+  headers: Headers,
+): Response {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.delete('Content-Length');
+  responseHeaders.set('Content-Range', `bytes */${size}`);
+  return new Response(null, { status: 416, headers: responseHeaders });
+}
+
+// 从一个完整的响应体中按顺序截取多个范围（用于边缘缓存命中的响应）
+// 要求范围按 offset 升序且互不重叠（parseRangeHeader 已保证）
+function createBodySlicer(
+  body: ReadableStream<Uint8Array>,
+): (range: ByteRange) => Promise<ReadableStream<Uint8Array>> {
+  const reader = body.getReader();
+  let position = 0; // buffered（或下一个读取块）的起始偏移
+  let buffered: Uint8Array | null = null;
+
+  const nextChunk = async (): Promise<Uint8Array | null> => {
+    if (buffered) {
+      const chunk = buffered;
+      buffered = null;
+      return chunk;
+    }
+    const { done, value } = await reader.read();
+    return done ? null : value;
+  };
+
+  return async ({ offset, length }) => {
+    const end = offset + length;
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (true) {
+          if (position >= end) {
+            controller.close();
+            return;
+          }
+
+          const chunk = await nextChunk();
+          if (!chunk) {
+            controller.error(new Error('Unexpected end of cached body'));
+            return;
+          }
+
+          const chunkStart = position;
+          const chunkEnd = position + chunk.byteLength;
+
+          // 整个块都在范围之前，跳过
+          if (chunkEnd <= offset) {
+            position = chunkEnd;
+            continue;
+          }
+
+          const from = Math.max(offset - chunkStart, 0);
+          const to = Math.min(end - chunkStart, chunk.byteLength);
+          if (to < chunk.byteLength) {
+            buffered = chunk.subarray(to);
+          }
+          position = chunkStart + to;
+
+          controller.enqueue(chunk.subarray(from, to));
+          return;
+        }
+      },
+    });
+  };
+}
+
+// 构建 206 Partial Content 响应（单范围或 multipart/byteranges）
+// readRange 负责读取单个范围的数据，R2 和边缘缓存分别提供各自的实现
+async function createRangeResponse(
+  ranges: ByteRange[],
+  size: number,
+  headers: Headers,
+  readRange: (range: ByteRange) => Promise<ReadableStream<Uint8Array> | null>,
+): Promise<Response> {
+  const responseHeaders = new Headers(headers);
+
+  // 单范围
+  if (ranges.length === 1) {
+    const range = ranges[0];
+    const stream = await readRange(range);
+    if (!stream) {
+      throw new Error('Failed to read requested range');
+    }
+
+    responseHeaders.set(
+      'Content-Range',
+      `bytes ${range.offset}-${range.offset + range.length - 1}/${size}`,
+    );
+    responseHeaders.set('Content-Length', range.length.toString());
+
+    const fixed = new FixedLengthStream(range.length);
+    stream.pipeTo(fixed.writable).catch((error) => {
+      console.error('Range stream error:', error);
+    });
+
+    return new Response(fixed.readable, {
+      status: 206,
+      headers: responseHeaders,
+    });
+  }
+
+  // 多范围：multipart/byteranges
+  const encoder = new TextEncoder();
+  const boundary = crypto.randomUUID().replace(/-/g, '');
+  const contentType = headers.get('Content-Type') || 'application/octet-stream';
+
+  const partHeaders = ranges.map((range) =>
+    encoder.encode(
+      `\r\n--${boundary}\r\n` +
+        `Content-Type: ${contentType}\r\n` +
+        `Content-Range: bytes ${range.offset}-${
+          range.offset + range.length - 1
+        }/${size}\r\n\r\n`,
+    ),
+  );
+  const closing = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const totalLength =
+    partHeaders.reduce((sum, part) => sum + part.byteLength, 0) +
+    ranges.reduce((sum, range) => sum + range.length, 0) +
+    closing.byteLength;
+
+  let index = 0;
+  let current: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        if (current) {
+          const { done, value } = await current.read();
+          if (!done) {
+            controller.enqueue(value);
+            return;
+          }
+          current = null;
+          index++;
+        }
+
+        if (index >= ranges.length) {
+          controller.enqueue(closing);
+          controller.close();
+          return;
+        }
+
+        const stream = await readRange(ranges[index]);
+        if (!stream) {
+          controller.error(new Error('Failed to read requested range'));
+          return;
+        }
+        current = stream.getReader();
+        controller.enqueue(partHeaders[index]);
+        return;
+      }
+    },
+  });
+
+  responseHeaders.set(
+    'Content-Type',
+    `multipart/byteranges; boundary=${boundary}`,
+  );
+  responseHeaders.set('Content-Length', totalLength.toString());
+
+  const fixed = new FixedLengthStream(totalLength);
+  body.pipeTo(fixed.writable).catch((error) => {
+    console.error('Multipart range stream error:', error);
+  });
+
+  return new Response(fixed.readable, {
+    status: 206,
+    headers: responseHeaders,
+  });
+}
+
+// 应用签名密钥（每个应用可以配置多个密钥用于轮换）
+interface AppSigningKey {
+  kid: string;
+  secret: string;
+  active?: boolean; // 当前用于签名的密钥
+  retireAt?: string; // 退役时间（ISO），之后不再接受该密钥的签名
+}
+
+// 公钥（JWK），kid 用于匹配 JWT Header 中的 kid
+type PublicJWK = JsonWebKey & { kid?: string };
+
+// 应用 JWT 配置：HS256 密钥（keys）与公钥（jwks / jwksUrl）可以同时配置
+interface AppJWTConfig {
+  keys?: AppSigningKey[];
+  jwks?: { keys: PublicJWK[] }; // 内联 JWKS
+  jwksUrl?: string; // 远程 JWKS 地址
+  audience?: string | string[]; // 公钥签名的 Token 必须包含的 aud
+  issuer?: string | string[]; // 公钥签名的 Token 允许的 iss
+}
+
+// JWT_SECRETS 配置：旧格式 {"app": "secret"}，新格式 {"app": {"keys": [...], "jwks": {...}}}
+type JWTSecretsConfig = {
+  [app: string]: string | AppJWTConfig;
+};
+
+// 旧格式（单个密钥）使用的 kid
+const LEGACY_KEY_ID = 'default';
+
+// 获取应用所有未退役的密钥
+function getAppSigningKeys(
+  secrets: JWTSecretsConfig,
+  appName: string,
+): AppSigningKey[] {
+  const config = secrets[appName];
+  if (!config) return [];
+
+  if (typeof config === 'string') {
+    return [{ kid: LEGACY_KEY_ID, secret: config, active: true }];
+  }
+
+  const now = Date.now();
+  return (config.keys || []).filter(
+    (key) =>
+      key &&
+      typeof key.kid === 'string' &&
+      typeof key.secret === 'string' &&
+      (!key.retireAt || Date.parse(key.retireAt) > now),
+  );
+}
+
+// 获取应用当前的签名密钥：标记为 active 的密钥，没有时使用最后一个未退役的密钥
+function getActiveSigningKey(
+  secrets: JWTSecretsConfig,
+  appName: string,
+): AppSigningKey | undefined {
+  const keys = getAppSigningKeys(secrets, appName);
+  return keys.find((key) => key.active) || keys[keys.length - 1];
+}
+
+// 选择验证签名时尝试的密钥：有 kid 时只使用对应的密钥，否则尝试所有未退役的密钥（兼容旧 Token）
+function selectVerificationKeys(
+  keys: AppSigningKey[],
+  kid: unknown,
+): AppSigningKey[] {
+  if (typeof kid === 'string') {
+    return keys.filter((key) => key.kid === kid);
+  }
+  return keys;
+}
+
+// 支持的公钥签名算法
+interface AsymmetricJWTAlgorithm {
+  kty: string;
+  crv?: string;
+  jwkAlgs: string[]; // JWK 中允许的 alg 值
+  importAlgorithm: SubtleCryptoImportKeyAlgorithm;
+  verifyAlgorithm: SubtleCryptoSignAlgorithm;
+}
+
+const ASYMMETRIC_JWT_ALGORITHMS = new Map<string, AsymmetricJWTAlgorithm>([
+  [
+    'RS256',
+    {
+      kty: 'RSA',
+      jwkAlgs: ['RS256'],
+      importAlgorithm: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      verifyAlgorithm: { name: 'RSASSA-PKCS1-v1_5' },
+    },
+  ],
+  [
+    'ES256',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      jwkAlgs: ['ES256'],
+      importAlgorithm: { name: 'ECDSA', namedCurve: 'P-256' },
+      verifyAlgorithm: { name: 'ECDSA', hash: 'SHA-256' },
+    },
+  ],
+  [
+    'EdDSA',
+    {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      jwkAlgs: ['EdDSA', 'Ed25519'],
+      importAlgorithm: { name: 'Ed25519' },
+      verifyAlgorithm: { name: 'Ed25519' },
+    },
+  ],
+]);
+
+// 远程 JWKS 内存缓存
+const JWKS_CACHE_TTL = 10 * 60 * 1000; // 10分钟
+const JWKS_MIN_REFRESH_INTERVAL = 60 * 1000; // 遇到未知 kid 时最多每分钟强制刷新一次
+
+const jwksCache = new Map<string, { keys: PublicJWK[]; fetchedAt: number }>();
+
+// 获取远程 JWKS（带缓存），获取失败时继续使用已缓存的公钥
+async function fetchJWKS(
+  url: string,
+  forceRefresh = false,
+): Promise<PublicJWK[]> {
+  const now = Date.now();
+  const cached = jwksCache.get(url);
+  if (cached) {
+    const age = now - cached.fetchedAt;
+    const refreshAllowed = forceRefresh && age >= JWKS_MIN_REFRESH_INTERVAL;
+    if (age < JWKS_CACHE_TTL && !refreshAllowed) {
+      return cached.keys;
+    }
+  }
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with status ${response.status}`);
+    }
+    const jwks = await response.json<{ keys?: PublicJWK[] }>();
+    if (!jwks || !Array.isArray(jwks.keys)) {
+      throw new Error('JWKS response must contain keys');
+    }
+    jwksCache.set(url, { keys: jwks.keys, fetchedAt: now });
+    return jwks.keys;
+  } catch (error) {
+    console.error('JWKS fetch error:', error);
+    if (cached) {
+      // 继续使用旧公钥，最小刷新间隔后再重试
+      jwksCache.set(url, {
+        keys: cached.keys,
+        fetchedAt: now - JWKS_CACHE_TTL + JWKS_MIN_REFRESH_INTERVAL,
+      });
+      return cached.keys;
+    }
+    throw error;
+  }
+}
+
+// 获取应用配置的所有公钥（内联 JWKS + 远程 JWKS）
+async function getAppPublicKeys(
+  secrets: JWTSecretsConfig,
+  appName: string,
+  kid: unknown,
+): Promise<PublicJWK[]> {
+  const config = secrets[appName];
+  if (!config || typeof config === 'string') return [];
+
+  const inlineKeys = Array.isArray(config.jwks?.keys) ? config.jwks!.keys : [];
+  if (!config.jwksUrl) return inlineKeys;
+
+  let remoteKeys = await fetchJWKS(config.jwksUrl);
+  // 未知 kid 可能是签发方刚轮换了密钥，强制刷新一次
+  if (
+    typeof kid === 'string' &&
+    ![...inlineKeys, ...remoteKeys].some((jwk) => jwk.kid === kid)
+  ) {
+    remoteKeys = await fetchJWKS(config.jwksUrl, true);
+  }
+  return [...inlineKeys, ...remoteKeys];
+}
+
+// 选择与算法和 kid 匹配的公钥（没有 kid 时尝试所有兼容的公钥）
+function selectPublicKeys(
+  keys: PublicJWK[],
+  algorithm: AsymmetricJWTAlgorithm,
+  kid: unknown,
+): PublicJWK[] {
+  return keys.filter(
+    (jwk) =>
+      jwk &&
+      jwk.kty === algorithm.kty &&
+      (!algorithm.crv || jwk.crv === algorithm.crv) &&
+      (!jwk.alg || algorithm.jwkAlgs.includes(jwk.alg)) &&
+      (!jwk.use || jwk.use === 'sig') &&
+      (typeof kid !== 'string' || jwk.kid === kid),
+  );
+}
+
+// 校验 aud / iss：Token 的 aud 可以是字符串或数组
+function matchesExpectedClaim(
+  expected: string | string[],
+  actual: unknown,
+): boolean {
+  const expectedValues = Array.isArray(expected) ? expected : [expected];
+  const actualValues = Array.isArray(actual) ? actual : [actual];
+  return actualValues.some(
+    (value) => typeof value === 'string' && expectedValues.includes(value),
+  );
+}
+
+// JWT 生成函数（使用 Web Crypto API）
+async function generateJWT(
+  payload: any,
+  secret: string,
+  kid?: string,
+): Promise<string> {
+  const header = { alg: 'HS256', typ: 'JWT', ...(kid && { kid }) };
+
+  const base64UrlEncode = (str: string): string => {
+    const base64 = btoa(str);
+    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  };
+
+  const encodedHeader = base64UrlEncode(JSON.stringify(header));
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const data = `${encodedHeader}.${encodedPayload}`;
+
+  const keyData = new TextEncoder().encode(secret);
+  const key = await crypto.subtle.importKey(
+    'raw',
+    keyData,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(data),
+  );
+  const signatureBase64 = btoa(
+    String.fromCharCode(...new Uint8Array(signature)),
+  );
+  const encodedSignature = signatureBase64
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+  return `${data}.${encodedSignature}`;
+}
+
+// TOKEN_API_KEYS 配置项：旧格式为 API Key 字符串，新格式可以要求请求签名
+type TokenAPIKeyConfig = string | { key: string; requireSignature?: boolean };
+
+function getTokenAPIKey(
+  config: TokenAPIKeyConfig | undefined,
+): { key: string; requireSignature: boolean } | undefined {
+  if (typeof config === 'string') {
+    return { key: config, requireSignature: false };
+  }
+  if (config && typeof config.key === 'string') {
+    return {
+      key: config.key,
+      requireSignature: config.requireSignature === true,
+    };
+  }
+  return undefined;
+}
+
+// 常量时间比较字符串（长度不同时直接返回 false）
+function timingSafeEqualString(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  if (aBytes.byteLength !== bBytes.byteLength) return false;
+  return crypto.subtle.timingSafeEqual(aBytes, bBytes);
+}
+
+// 请求签名：Authorization: HMAC-SHA256 app=<appName>,timestamp=<秒>,nonce=<随机串>,signature=<签名>
+const REQUEST_SIGNATURE_SCHEME = 'HMAC-SHA256';
+const REQUEST_SIGNATURE_MAX_SKEW = 300; // 允许的时钟偏差（秒）
+const REQUEST_NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// 请求签名的待签名字符串
+function getRequestSignaturePayload(
+  method: string,
+  url: URL,
+  timestamp: string,
+  nonce: string,
+  bodyHash: string,
+): string {
+  return [
+    method.toUpperCase(),
+    url.pathname + url.search,
+    timestamp,
+    nonce,
+    bodyHash,
+  ].join('\n');
+}
+
+// 解析 Authorization 中的 key=value 参数
+function parseSignatureAuthorization(
+  authHeader: string,
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const params = authHeader.substring(REQUEST_SIGNATURE_SCHEME.length + 1);
+  for (const part of params.split(',')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    fields[part.slice(0, index).trim()] = part
+      .slice(index + 1)
+      .trim()
+      .replace(/^"|"$/g, '');
+  }
+  return fields;
+}
+
+// 请求签名 nonce 存储（Durable Object 或本地内存）
+interface NonceStore {
+  // 首次使用返回 true，重复使用返回 false
+  claim(appName: string, nonce: string, ttl: number): Promise<boolean>;
+}
+
+// 本地内存存储：未绑定 NONCE_GUARD 时使用（本地开发和测试），仅在当前 isolate 内有效
+const memoryNonces = new Map<string, number>();
+
+const memoryNonceStore: NonceStore = {
+  async claim(appName, nonce, ttl) {
+    const now = Date.now();
+    const key = `${appName}:${nonce}`;
+    const expires = memoryNonces.get(key);
+    if (expires !== undefined && expires > now) return false;
+
+    for (const [storedKey, storedExpires] of memoryNonces) {
+      if (storedExpires <= now) memoryNonces.delete(storedKey);
+    }
+    memoryNonces.set(key, now + ttl * 1000);
+    return true;
+  },
+};
+
+function getNonceStore(env: Env): NonceStore {
+  if (!env.NONCE_GUARD) return memoryNonceStore;
+
+  const namespace = env.NONCE_GUARD;
+  return {
+    // 每个应用一个 Durable Object 实例
+    claim: (appName, nonce, ttl) =>
+      namespace.get(namespace.idFromName(appName)).claim(nonce, ttl),
+  };
+}
+
+// 请求签名 nonce 防重放：Durable Object 单线程执行，保证检查与记录的原子性
+export class NonceGuard extends DurableObject<Env> {
+  async claim(nonce: string, ttl: number): Promise<boolean> {
+    const now = Date.now();
+    const expires = await this.ctx.storage.get<number>(nonce);
+    if (expires !== undefined && expires > now) return false;
+
+    await this.ctx.storage.put(nonce, now + ttl * 1000);
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(now + ttl * 1000);
+    }
+    return true;
+  }
+
+  // 定时清理过期的 nonce
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const entries = await this.ctx.storage.list<number>();
+    const expired: string[] = [];
+    let nextExpiry: number | undefined;
+
+    for (const [nonce, expires] of entries) {
+      if (expires <= now) {
+        expired.push(nonce);
+      } else if (nextExpiry === undefined || expires < nextExpiry) {
+        nextExpiry = expires;
+      }
+    }
+
+    // storage.delete 每次最多删除 128 个键
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.ctx.storage.delete(expired.slice(i, i + 128));
+    }
+    if (nextExpiry !== undefined) {
+      await this.ctx.storage.setAlarm(nextExpiry);
+    }
+  }
+}
+
+// 验证请求签名（时间戳 + nonce + 请求体哈希，使用应用的 API Key 进行 HMAC-SHA256 签名）
+async function verifyRequestSignature(
+  request: Request,
+  env: Env,
+  apiKeys: { [app: string]: TokenAPIKeyConfig },
+  authHeader: string,
+): Promise<{
+  valid: boolean;
+  error?: string;
+  appName?: string;
+  apiKey?: string;
+}> {
+  const { app, timestamp, nonce, signature } =
+    parseSignatureAuthorization(authHeader);
+  if (!app || !timestamp || !nonce || !signature) {
+    return { valid: false, error: 'Invalid request signature header' };
+  }
+
+  const apiKey = Object.prototype.hasOwnProperty.call(apiKeys, app)
+    ? getTokenAPIKey(apiKeys[app])
+    : undefined;
+  if (!apiKey) {
+    return { valid: false, error: 'Invalid request signature' };
+  }
+
+  // 检查时间戳是否在允许的时钟偏差范围内
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    !/^\d+$/.test(timestamp) ||
+    Math.abs(now - parseInt(timestamp, 10)) > REQUEST_SIGNATURE_MAX_SKEW
+  ) {
+    return { valid: false, error: 'Request timestamp outside allowed window' };
+  }
+
+  if (!REQUEST_NONCE_PATTERN.test(nonce)) {
+    return { valid: false, error: 'Invalid request nonce' };
+  }
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = base64UrlDecodeBytes(signature);
+  } catch (error) {
+    return { valid: false, error: 'Invalid request signature' };
+  }
+
+  // 请求体的 SHA-256（十六进制），请求体之后还要由接口处理，这里读取副本
+  const body = await request.clone().arrayBuffer();
+  const bodyHash = bytesToHex(await crypto.subtle.digest('SHA-256', body));
+
+  const data = new TextEncoder().encode(
+    getRequestSignaturePayload(
+      request.method,
+      new URL(request.url),
+      timestamp,
+      nonce,
+      bodyHash,
+    ),
+  );
+  const hmacKey = await importHmacKey(apiKey.key, 'verify');
+  if (!(await crypto.subtle.verify('HMAC', hmacKey, signatureBytes, data))) {
+    return { valid: false, error: 'Invalid request signature' };
+  }
+
+  // 签名有效后再记录 nonce，避免伪造请求占用 nonce
+  // nonce 的保留时间覆盖时间戳的整个有效窗口
+  const fresh = await getNonceStore(env).claim(
+    app,
+    nonce,
+    REQUEST_SIGNATURE_MAX_SKEW * 2,
+  );
+  if (!fresh) {
+    return { valid: false, error: 'Request nonce already used' };
+  }
+
+  return { valid: true, appName: app, apiKey: apiKey.key };
+}
+
+// 验证 Token API 请求（Bearer API Key 或请求签名）
+async function validateTokenAPIRequest(
+  request: Request,
+  env: Env,
+): Promise<{
+  valid: boolean;
+  error?: string;
+  appName?: string;
+  apiKey?: string;
+}> {
+  // 检查 TOKEN_API_KEYS 配置
+  if (!env.TOKEN_API_KEYS) {
+    return { valid: false, error: 'TOKEN_API_KEYS not configured' };
+  }
+
+  let apiKeys: { [app: string]: TokenAPIKeyConfig };
+  try {
+    apiKeys = JSON.parse(env.TOKEN_API_KEYS);
+  } catch (error) {
+    return { valid: false, error: 'Invalid TOKEN_API_KEYS configuration' };
+  }
+
+  // 检查 Authorization 头
+  const authHeader = request.headers.get('Authorization');
+  let appName: string | undefined;
+  let apiKey: string | undefined;
+
+  if (authHeader && authHeader.startsWith(`${REQUEST_SIGNATURE_SCHEME} `)) {
+    // 请求签名
+    const signatureValidation = await verifyRequestSignature(
+      request,
+      env,
+      apiKeys,
+      authHeader,
+    );
+    if (!signatureValidation.valid) {
+      return signatureValidation;
+    }
+    appName = signatureValidation.appName;
+    apiKey = signatureValidation.apiKey;
+  } else if (authHeader && authHeader.startsWith('Bearer ')) {
+    const bearerKey = authHeader.substring(7);
+
+    // 验证 API Key 并获取应用名称
+    for (const [app, config] of Object.entries(apiKeys)) {
+      const appKey = getTokenAPIKey(config);
+      if (appKey && timingSafeEqualString(appKey.key, bearerKey)) {
+        if (appKey.requireSignature) {
+          return { valid: false, error: 'Request signature required' };
+        }
+        appName = app;
+        apiKey = appKey.key;
+        break;
+      }
+    }
+
+    if (!appName) {
+      return { valid: false, error: 'Invalid API key' };
+    }
+  } else {
+    return { valid: false, error: 'Missing or invalid authorization header' };
+  }
+
+  // 验证请求来源（按应用的路径 <appName>/ 匹配来源策略）
+  const originCheck = checkOriginPolicy(request, env, 'token', `${appName}/`);
+  if (!originCheck.allowed) {
+    return { valid: false, error: originCheck.error };
+  }
+
+  return { valid: true, appName, apiKey };
+}
+
+// 限流的接口范围
+type RateLimitScope = 'token' | 'upload';
+
+// 限流规则：按应用、凭证（API Key 或上传 Token）或客户端 IP 计数，window 秒内最多 limit 次
+interface RateLimitRule {
+  by: 'app' | 'key' | 'ip';
+  limit: number;
+  window: number;
+}
+
+// RATE_LIMITS 配置："*" 为未单独配置的应用的默认规则
+type RateLimitConfig = {
+  [app: string]: Partial<
+    Record<RateLimitScope, RateLimitRule | RateLimitRule[]>
+  >;
+};
+
+interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // 令牌桶补满所需秒数
+  retryAfter: number; // 被限流时下一次可用的秒数
+}
+
+// 令牌桶状态
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// 令牌桶：容量为 limit，每 window 秒匀速补满
+function consumeTokenBucket(
+  state: TokenBucketState | undefined,
+  limit: number,
+  window: number,
+  now: number,
+): { state: TokenBucketState; result: RateLimitResult } {
+  const ratePerSecond = limit / window;
+  let tokens = state
+    ? Math.min(
+        limit,
+        state.tokens + ((now - state.updatedAt) / 1000) * ratePerSecond,
+      )
+    : limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((limit - tokens) / ratePerSecond),
+      retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / ratePerSecond),
+    },
+  };
+}
+
+// 限流计数存储（Durable Object 或本地内存）
+interface RateLimitStore {
+  consume(
+    name: string,
+    limit: number,
+    window: number,
+  ): Promise<RateLimitResult>;
+}
+
+// 本地内存存储：未绑定 RATE_LIMITER 时使用（本地开发和测试），仅在当前 isolate 内有效
+const memoryRateLimits = new Map<
+  string,
+  { state: TokenBucketState; expires: number }
+>();
+
+const memoryRateLimitStore: RateLimitStore = {
+  async consume(name, limit, window) {
+    const now = Date.now();
+    for (const [storedName, entry] of memoryRateLimits) {
+      if (entry.expires <= now) memoryRateLimits.delete(storedName);
+    }
+
+    const { state, result } = consumeTokenBucket(
+      memoryRateLimits.get(name)?.state,
+      limit,
+      window,
+      now,
+    );
+    memoryRateLimits.set(name, { state, expires: now + window * 1000 });
+    return result;
+  },
+};
+
+function getRateLimitStore(env: Env): RateLimitStore {
+  if (!env.RATE_LIMITER) return memoryRateLimitStore;
+
+  const namespace = env.RATE_LIMITER;
+  return {
+    // 每个计数键一个 Durable Object 实例
+    consume: (name, limit, window) =>
+      namespace.get(namespace.idFromName(name)).consume(limit, window),
+  };
+}
+
+// 限流计数：Durable Object 单线程执行，多个 isolate 之间计数一致
+export class RateLimiter extends DurableObject<Env> {
+  async consume(limit: number, window: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const { state, result } = consumeTokenBucket(
+      await this.ctx.storage.get<TokenBucketState>('bucket'),
+      limit,
+      window,
+      now,
+    );
+    await this.ctx.storage.put('bucket', state);
+    // 一个窗口内没有新请求时令牌桶已补满，届时清理存储
+    await this.ctx.storage.setAlarm(now + window * 1000);
+    return result;
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+// 获取应用在某个接口上的限流规则（忽略无效规则）
+function getRateLimitRules(
+  env: Env,
+  appName: string,
+  scope: RateLimitScope,
+): { rules?: RateLimitRule[]; error?: string } {
+  if (!env.RATE_LIMITS) return { rules: [] };
+
+  let config: RateLimitConfig;
+  try {
+    config = JSON.parse(env.RATE_LIMITS);
+  } catch (error) {
+    return { error: 'Invalid RATE_LIMITS configuration' };
+  }
+
+  const appConfig = Object.prototype.hasOwnProperty.call(config, appName)
+    ? config[appName]
+    : config['*'];
+  const rules = appConfig?.[scope];
+  if (!rules) return { rules: [] };
+
+  return {
+    rules: (Array.isArray(rules) ? rules : [rules]).filter(
+      (rule) =>
+        rule &&
+        ['app', 'key', 'ip'].includes(rule.by) &&
+        rule.limit > 0 &&
+        rule.window > 0,
+    ),
+  };
+}
+
+// 计数键中的凭证使用哈希，避免 API Key 或 Token 原文出现在 Durable Object 名称中
+async function hashRateLimitIdentity(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(value),
+  );
+  return base64UrlEncodeBytes(digest);
+}
+
+// 检查限流，超过限制时返回 429 响应，否则返回 null；by 指定本次检查的规则类型
+async function checkRateLimit(
+  request: Request,
+  env: Env,
+  scope: RateLimitScope,
+  appName: string,
+  credential: string,
+  by: RateLimitRule['by'][],
+): Promise<Response | null> {
+  const { rules: configuredRules, error } = getRateLimitRules(
+    env,
+    appName,
+    scope,
+  );
+  if (!configuredRules) {
+    return jsonResponse({ error, code: 'CONFIG_ERROR' }, 500);
+  }
+  const rules = configuredRules.filter((rule) => by.includes(rule.by));
+  if (rules.length === 0) return null;
+
+  const store = getRateLimitStore(env);
+  let limited: RateLimitResult | undefined;
+
+  for (const rule of rules) {
+    let identity: string;
+    if (rule.by === 'ip') {
+      identity = request.headers.get('CF-Connecting-IP') || 'unknown';
+    } else if (rule.by === 'key') {
+      identity = await hashRateLimitIdentity(credential);
+    } else {
+      identity = '';
+    }
+
+    const result = await store.consume(
+      `${scope}:${appName}:${rule.by}:${identity}`,
+      rule.limit,
+      rule.window,
+    );
+    if (
+      !result.allowed &&
+      (!limited || result.retryAfter > limited.retryAfter)
+    ) {
+      limited = result;
+    }
+  }
+
+  if (!limited) return null;
+
+  return jsonResponse(
+    {
+      error: 'Too many requests',
+      code: 'RATE_LIMITED',
+      retryAfter: limited.retryAfter,
+    },
+    429,
+    {
+      'Retry-After': limited.retryAfter.toString(),
+      'RateLimit-Limit': limited.limit.toString(),
+      'RateLimit-Remaining': limited.remaining.toString(),
+      'RateLimit-Reset': limited.reset.toString(),
+      'Access-Control-Expose-Headers':
+        'Retry-After, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset',
+    },
+  );
+}
+
+// 请求声明的应用（未验证）：请求签名的 app 字段或 JWT 的 appName，Bearer API Key 无法在验证前确定应用
+function getClaimedAppName(request: Request): string | undefined {
+  const authHeader = request.headers.get('Authorization') || '';
+  if (authHeader.startsWith(`${REQUEST_SIGNATURE_SCHEME} `)) {
+    return parseSignatureAuthorization(authHeader).app || undefined;
+  }
+
+  const parts = authHeader.startsWith('Bearer ')
+    ? authHeader.substring(7).split('.')
+    : [];
+  if (parts.length !== 3) return undefined;
+  try {
+    const payload = JSON.parse(
+      new TextDecoder().decode(base64UrlDecodeBytes(parts[1])),
+    );
+    return typeof payload?.appName === 'string' ? payload.appName : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// 验证凭证之前按客户端 IP 限流，无效凭证的请求同样计数
+// 按请求声明的应用选择规则，无法确定应用时使用 "*" 的规则；返回使用的应用名，验证后的应用不同时需要再检查一次
+async function checkClientRateLimit(
+  request: Request,
+  env: Env,
+  scope: RateLimitScope,
+): Promise<{ appName: string; response: Response | null }> {
+  const appName = getClaimedAppName(request) || '*';
+  return {
+    appName,
+    response: await checkRateLimit(request, env, scope, appName, '', ['ip']),
+  };
+}
+
+// Token 最大有效期（未配置策略时的默认上限）
+const DEFAULT_TOKEN_MAX_TTL = 86400; // 24 小时
+
+// 应用的 Token 签发策略（TOKEN_POLICIES 中的配置项）
+interface TokenPolicy {
+  pathRoots: string[]; // 允许的路径根，"" 表示整个存储桶
+  maxTtl: number;
+  maxFileSize: number;
+  allowedExtensions?: string[];
+  operations: TokenOperation[];
+}
+
+// 获取应用的 Token 签发策略
+// 未配置策略的应用只能访问自己的路径（<appName>/），其他限制使用全局默认值
+function getTokenPolicy(
+  env: Env,
+  appName: string,
+): { policy?: TokenPolicy; error?: string } {
+  const globalMaxFileSize = parseInt(env.MAX_FILE_SIZE || '104857600');
+
+  let policies: { [app: string]: Partial<TokenPolicy> } = {};
+  if (env.TOKEN_POLICIES) {
+    try {
+      policies = JSON.parse(env.TOKEN_POLICIES);
+    } catch (error) {
+      return { error: 'Invalid TOKEN_POLICIES configuration' };
+    }
+  }
+
+  const config = policies[appName] || {};
+
+  // 路径根统一以 "/" 结尾，避免 "app" 匹配到 "app-other/"
+  const pathRoots = (config.pathRoots || [`${appName}/`]).map((root) => {
+    if (root === '' || root === '*') return '';
+    return root.endsWith('/') ? root : `${root}/`;
+  });
+
+  return {
+    policy: {
+      pathRoots,
+      maxTtl: Math.min(
+        config.maxTtl || DEFAULT_TOKEN_MAX_TTL,
+        DEFAULT_TOKEN_MAX_TTL,
+      ),
+      maxFileSize: Math.min(
+        config.maxFileSize || globalMaxFileSize,
+        globalMaxFileSize,
+      ),
+      allowedExtensions: config.allowedExtensions?.map((ext) =>
+        ext.toLowerCase(),
+      ),
+      operations: config.operations || TOKEN_OPERATIONS,
+    },
+  };
+}
+
+// 检查路径模式（"*"、"prefix/*" 或精确路径）是否在策略允许的路径根之内
+function isPathWithinRoots(path: string, pathRoots: string[]): boolean {
+  if (path.includes('..')) return false;
+
+  const prefix =
+    path === '*' ? '' : path.endsWith('/*') ? path.slice(0, -1) : path;
+  return pathRoots.some((root) => prefix.startsWith(root));
+}
+
+// 外部系统签发的 Token 不经过 /token，按应用的签发策略收窄其声明：
+// allowedPaths 必填且必须在路径根之内，maxFileSize、allowedExtensions、operations 不超过策略
+function applyExternalTokenPolicy(
+  env: Env,
+  tokenData: any,
+): { tokenData?: any; error?: string } {
+  const policyResult = getTokenPolicy(env, tokenData.appName);
+  if (!policyResult.policy) return { error: policyResult.error };
+  const policy = policyResult.policy;
+
+  const allowedPaths = tokenData.allowedPaths;
+  if (
+    !Array.isArray(allowedPaths) ||
+    allowedPaths.length === 0 ||
+    !allowedPaths.every((path) => typeof path === 'string')
+  ) {
+    return { error: 'JWT payload must contain allowedPaths' };
+  }
+  const deniedPath = allowedPaths.find(
+    (path: string) => !isPathWithinRoots(path, policy.pathRoots),
+  );
+  if (deniedPath !== undefined) {
+    return { error: `Path not allowed by policy: ${deniedPath}` };
+  }
+
+  const maxFileSize =
+    typeof tokenData.maxFileSize === 'number' && tokenData.maxFileSize > 0
+      ? Math.min(tokenData.maxFileSize, policy.maxFileSize)
+      : policy.maxFileSize;
+
+  let allowedExtensions: string[] | undefined = Array.isArray(
+    tokenData.allowedExtensions,
+  )
+    ? tokenData.allowedExtensions.map((ext: unknown) =>
+        String(ext).toLowerCase(),
+      )
+    : policy.allowedExtensions;
+  if (allowedExtensions && policy.allowedExtensions) {
+    allowedExtensions = allowedExtensions.filter((ext) =>
+      policy.allowedExtensions!.includes(ext),
+    );
+  }
+  if (allowedExtensions && allowedExtensions.length === 0) {
+    return { error: 'None of the token extensions are allowed by policy' };
+  }
+
+  const operations = (
+    Array.isArray(tokenData.operations)
+      ? tokenData.operations
+      : DEFAULT_TOKEN_OPERATIONS
+  ).filter((operation: TokenOperation) =>
+    policy.operations.includes(operation),
+  );
+
+  return {
+    tokenData: { ...tokenData, maxFileSize, allowedExtensions, operations },
+  };
+}
+
+// 处理 Token 生成请求
+async function handleTokenRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    // 验证凭证之前按 IP 限流
+    const clientLimit = await checkClientRateLimit(request, env, 'token');
+    if (clientLimit.response) return clientLimit.response;
+
+    // 验证 API 请求
+    const validation = await validateTokenAPIRequest(request, env);
+    if (!validation.valid || !validation.appName) {
+      return new Response(
+        JSON.stringify({
+          error: validation.error || 'Unauthorized',
+          code: 'UNAUTHORIZED',
+        }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const appName = validation.appName;
+
+    // 按应用和 API Key 限流（Bearer API Key 在验证后才能确定应用，同时检查应用的 IP 规则）
+    const rateLimitResponse = await checkRateLimit(
+      request,
+      env,
+      'token',
+      appName,
+      validation.apiKey || '',
+      clientLimit.appName === appName ? ['app', 'key'] : ['app', 'key', 'ip'],
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    // 检查 JWT_SECRETS 配置
+    if (!env.JWT_SECRETS) {
+      return new Response(
+        JSON.stringify({
+          error: 'JWT_SECRETS not configured',
+          code: 'CONFIG_ERROR',
+        }),
+        {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    let jwtSecrets: JWTSecretsConfig;
+    try {
+      jwtSecrets = JSON.parse(env.JWT_SECRETS);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JWT_SECRETS configuration',
+          code: 'CONFIG_ERROR',
+        }),
+        {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    const signingKey = getActiveSigningKey(jwtSecrets, appName);
+    if (!signingKey) {
+      return new Response(
+        JSON.stringify({
+          error: `No JWT secret configured for app: ${appName}`,
+          code: 'CONFIG_ERROR',
+        }),
+        {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    // 解析请求参数
+    let params: {
+      maxAge?: number;
+      maxFileSize?: number;
+      allowedExtensions?: string[];
+      customPath?: string;
+      operations?: string[];
+      contentAddressed?: boolean | { prefix?: string };
+      allowOverwrite?: boolean;
+      keyTemplate?: string;
+      sub?: string;
+    };
+
+    const contentType = request.headers.get('Content-Type') || '';
+
+    if (contentType.includes('application/json')) {
+      params = (await request.json()) as typeof params;
+    } else {
+      // 支持 URL 参数
+      const url = new URL(request.url);
+      params = {
+        maxAge: url.searchParams.get('maxAge')
+          ? parseInt(url.searchParams.get('maxAge')!)
+          : undefined,
+        maxFileSize: url.searchParams.get('maxFileSize')
+          ? parseInt(url.searchParams.get('maxFileSize')!)
+          : undefined,
+        allowedExtensions: url.searchParams.get('allowedExtensions')
+          ? url.searchParams.get('allowedExtensions')!.split(',')
+          : undefined,
+        customPath: url.searchParams.get('customPath') || undefined,
+        operations: url.searchParams.get('operations')
+          ? url.searchParams.get('operations')!.split(',')
+          : undefined,
+        contentAddressed: url.searchParams.get('contentAddressedPrefix')
+          ? { prefix: url.searchParams.get('contentAddressedPrefix')! }
+          : url.searchParams.get('contentAddressed') === 'true' || undefined,
+        allowOverwrite: url.searchParams.get('allowOverwrite') === 'true',
+        keyTemplate: url.searchParams.get('keyTemplate') || undefined,
+        sub: url.searchParams.get('sub') || undefined,
+      };
+    }
+
+    // 获取应用的签发策略
+    const policyResult = getTokenPolicy(env, appName);
+    if (!policyResult.policy) {
+      return jsonResponse(
+        { error: policyResult.error, code: 'CONFIG_ERROR' },
+        500,
+      );
+    }
+    const policy = policyResult.policy;
+
+    // 记录被策略收窄的参数，在响应中返回
+    const narrowed: string[] = [];
+
+    // 设置默认值和限制
+    const requestedMaxAge = params.maxAge || 3600;
+    const maxAge = Math.min(requestedMaxAge, policy.maxTtl); // 最大 24 小时
+    if (params.maxAge && maxAge < params.maxAge) narrowed.push('maxAge');
+
+    const requestedMaxSize = Math.min(
+      params.maxFileSize || parseInt(env.MAX_FILE_SIZE || '10485760'),
+      parseInt(env.MAX_FILE_SIZE || '104857600'),
+    ); // 默认 10MB，最大 100MB
+    const maxSize = Math.min(requestedMaxSize, policy.maxFileSize);
+    if (params.maxFileSize && maxSize < params.maxFileSize) {
+      narrowed.push('maxFileSize');
+    }
+
+    // 默认允许的扩展名（图片）
+    const requestedExtensions = (
+      params.allowedExtensions || [
+        '.jpg',
+        '.jpeg',
+        '.png',
+        '.webp',
+        '.heic',
+        '.heif',
+      ]
+    ).map((ext) => ext.toLowerCase());
+
+    // 扩展名取与策略的交集
+    const allowedExtensions = policy.allowedExtensions
+      ? requestedExtensions.filter((ext) =>
+          policy.allowedExtensions!.includes(ext),
+        )
+      : requestedExtensions;
+    if (allowedExtensions.length === 0) {
+      return jsonResponse(
+        {
+          error: `None of the requested extensions are allowed. Allowed: ${policy.allowedExtensions!.join(
+            ', ',
+          )}`,
+          code: 'POLICY_VIOLATION',
+        },
+        403,
+      );
+    }
+    if (
+      params.allowedExtensions &&
+      allowedExtensions.length < requestedExtensions.length
+    ) {
+      narrowed.push('allowedExtensions');
+    }
+
+    // 限制上传路径（必须在策略的路径根之内）
+    const defaultPath = isPathWithinRoots(`${appName}/*`, policy.pathRoots)
+      ? `${appName}/*`
+      : `${policy.pathRoots[0]}*`;
+    // 最终用户标识（sub）由可信的调用方提供，可通过 {app}、{sub} 占位符写入上传路径
+    const sub = params.sub;
+    if (sub !== undefined && !SUBJECT_PATTERN.test(String(sub))) {
+      return jsonResponse(
+        {
+          error:
+            'Invalid sub. Use 1-128 letters, digits, "_", "-", "@" or "." (not starting with ".")',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
+    }
+    const customPath = expandKeyTemplate(params.customPath || defaultPath, {
+      app: appName,
+      sub,
+    });
+    const unresolved = customPath.match(/\{(\w+)\}/);
+    if (unresolved) {
+      return jsonResponse(
+        {
+          error:
+            unresolved[1] === 'sub'
+              ? 'Path variable {sub} requires sub'
+              : `Unknown path variable: {${unresolved[1]}}`,
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
+    }
+    if (!isPathWithinRoots(customPath, policy.pathRoots)) {
+      return jsonResponse(
+        {
+          error: `Path not allowed by policy: ${customPath}. Allowed roots: ${policy.pathRoots.join(
+            ', ',
+          )}`,
+          code: 'POLICY_VIOLATION',
+        },
+        403,
+      );
+    }
+
+    // 允许的操作（默认只允许上传）
+    const operations = params.operations || DEFAULT_TOKEN_OPERATIONS;
+    const invalidOperation = operations.find(
+      (operation) => !TOKEN_OPERATIONS.includes(operation as TokenOperation),
+    );
+    if (invalidOperation !== undefined) {
+      return jsonResponse(
+        {
+          error: `Invalid operation: ${invalidOperation}. Allowed: ${TOKEN_OPERATIONS.join(
+            ', ',
+          )}`,
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
+    }
+    const deniedOperation = operations.find(
+      (operation) => !policy.operations.includes(operation as TokenOperation),
+    );
+    if (deniedOperation !== undefined) {
+      return jsonResponse(
+        {
+          error: `Operation not allowed by policy: ${deniedOperation}`,
+          code: 'POLICY_VIOLATION',
+        },
+        403,
+      );
+    }
+
+    // 内容寻址上传：文件按 SHA-256 存储在前缀下，前缀默认取上传路径的通配部分
+    let contentAddressed: { prefix: string } | undefined;
+    if (params.contentAddressed) {
+      const requestedPrefix =
+        typeof params.contentAddressed === 'object'
+          ? params.contentAddressed.prefix
+          : undefined;
+      const prefix = (
+        requestedPrefix ||
+        (customPath.endsWith('/*') ? customPath.slice(0, -2) : '')
+      ).replace(/\/+$/, '');
+      if (
+        !prefix ||
+        !validateFilePath(`${prefix}/x.png`).valid ||
+        !isPathAllowed([customPath], `${prefix}/x`)
+      ) {
+        return jsonResponse(
+          {
+            error: `Invalid content-addressed prefix for path ${customPath}`,
+            code: 'INVALID_REQUEST',
+          },
+          400,
+        );
+      }
+      contentAddressed = { prefix };
+    }
+
+    // 上传路径模板：用示例变量展开后检查路径规则和 customPath 范围
+    const keyTemplate = params.keyTemplate;
+    if (keyTemplate !== undefined) {
+      const templateError = validateKeyTemplate(keyTemplate);
+      const sampleKey = expandKeyTemplate(keyTemplate, {
+        ...getKeyTemplateVariables(appName, sub, allowedExtensions[0]),
+        sha256: '0'.repeat(64),
+      });
+      if (
+        templateError ||
+        sampleKey.includes('{sub}') ||
+        !validateFilePath(sampleKey).valid ||
+        !isPathAllowed([customPath], sampleKey)
+      ) {
+        return jsonResponse(
+          {
+            error:
+              templateError ||
+              (sampleKey.includes('{sub}')
+                ? 'Key template variable {sub} requires sub'
+                : undefined) ||
+              `Key template does not produce a valid path within ${customPath}: ${sampleKey}`,
+            code: 'INVALID_REQUEST',
+          },
+          400,
+        );
+      }
+    }
+
+    // 生成 Token Payload
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      exp: now + maxAge,
+      iat: now,
+      jti: crypto.randomUUID(),
+      appName: appName,
+      allowedPaths: [customPath],
+      maxFileSize: maxSize,
+      allowedExtensions: allowedExtensions,
+      operations: operations,
+      ...(contentAddressed && { contentAddressed }),
+      // 新签发的 Token 默认不允许覆盖已有文件
+      allowOverwrite: params.allowOverwrite === true,
+      ...(keyTemplate && { keyTemplate }),
+      ...(sub !== undefined && { sub }),
+      created: new Date().toISOString(),
+    };
+
+    // 生成 JWT
+    const token = await generateJWT(payload, signingKey.secret, signingKey.kid);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          token: token,
+          jti: payload.jti,
+          expiresIn: maxAge,
+          maxFileSize: maxSize,
+          allowedExtensions: allowedExtensions,
+          allowedPaths: [customPath],
+          operations: operations,
+          contentAddressed,
+          allowOverwrite: payload.allowOverwrite,
+          keyTemplate,
+          sub,
+          // 实际应用的签发策略
+          policy: {
+            pathRoots: policy.pathRoots,
+            maxTtl: policy.maxTtl,
+            maxFileSize: policy.maxFileSize,
+            allowedExtensions: policy.allowedExtensions,
+            operations: policy.operations,
+            narrowed,
+          },
+        },
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('Token generation error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Token generation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'TOKEN_ERROR',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+}
+
+// 签名URL默认有效期和最大有效期
+const SIGNED_URL_DEFAULT_EXPIRES_IN = 3600; // 1小时
+const SIGNED_URL_MAX_EXPIRES_IN = 7 * 24 * 3600; // 7天
+
+// 检查是否为内部保留路径（存放 Worker 自身的状态数据）
+function isReservedKey(key: string): boolean {
+  return (
+    key.startsWith(MULTIPART_STATE_PREFIX) || key.startsWith(CONFIG_PREFIX)
+  );
+}
+
+// 通配符路径匹配：* 匹配任意字符（包括 /）
+function matchPathPattern(key: string, pattern: string): boolean {
+  const regex = new RegExp(
+    '^' +
+      pattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*') +
+      '$',
+  );
+  return regex.test(key);
+}
+
+// 检查路径是否受保护（只能通过签名URL访问）
+function isProtectedPath(key: string, env: Env): boolean {
+  if (!env.PROTECTED_PATHS) return false;
+  return env.PROTECTED_PATHS.split(',')
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .some((pattern) => matchPathPattern(key, pattern));
+}
+
+// Base64URL 编码字节数组
+function base64UrlEncodeBytes(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// 字节数组转十六进制（小写）
+function bytesToHex(bytes: ArrayBuffer | Uint8Array): string {
+  return [...new Uint8Array(bytes)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Base64URL 解码为字节数组
+function base64UrlDecodeBytes(str: string): Uint8Array {
+  const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binaryString = atob(padded);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// 签名URL参数
+interface SignedUrlParams {
+  key: string;
+  app: string;
+  expires: number;
+  ip?: string;
+  maxUses?: number;
+  nonce?: string;
+}
+
+// 签名URL的待签名字符串
+function getSignedUrlPayload(params: SignedUrlParams): string {
+  return [
+    params.key,
+    params.app,
+    params.expires,
+    params.ip || '',
+    params.maxUses || '',
+    params.nonce || '',
+  ].join('\n');
+}
+
+async function importHmacKey(
+  secret: string,
+  usage: 'sign' | 'verify',
+): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage],
+  );
+}
+
+// 生成签名URL
+async function createSignedUrl(
+  origin: string,
+  params: SignedUrlParams,
+  signingKey: AppSigningKey,
+): Promise<string> {
+  const key = await importHmacKey(signingKey.secret, 'sign');
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(getSignedUrlPayload(params)),
+  );
+
+  const url = new URL(`${origin}/${params.key}`);
+  url.searchParams.set('app', params.app);
+  url.searchParams.set('expires', params.expires.toString());
+  if (params.ip) url.searchParams.set('ip', params.ip);
+  if (params.maxUses) {
+    url.searchParams.set('maxUses', params.maxUses.toString());
+  }
+  if (params.nonce) url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('kid', signingKey.kid);
+  url.searchParams.set('signature', base64UrlEncodeBytes(signature));
+
+  return url.toString();
+}
+
+// 签名URL的使用记录：已使用次数和使用过的客户端（CF-Connecting-IP）
+interface SignedUrlUsage {
+  count: number;
+  clients: string[];
+}
+
+// 签名URL使用次数存储（Durable Object 或本地内存）
+interface SignedUrlUsageStore {
+  // 记录一次使用，超过次数限制时返回 false；resume 为 true 且客户端已使用过时不计数
+  consume(
+    appName: string,
+    nonce: string,
+    maxUses: number,
+    expires: number,
+    client: string,
+    resume: boolean,
+  ): Promise<boolean>;
+}
+
+// 按使用记录判断并计数，返回更新后的记录（未计数时没有 usage）
+function consumeSignedUrlUsage(
+  usage: SignedUrlUsage | undefined,
+  maxUses: number,
+  client: string,
+  resume: boolean,
+): { allowed: boolean; usage?: SignedUrlUsage } {
+  const current = usage || { count: 0, clients: [] };
+  if (resume && current.clients.includes(client)) {
+    return { allowed: true };
+  }
+  if (current.count >= maxUses) {
+    return { allowed: false };
+  }
+  return {
+    allowed: true,
+    usage: {
+      count: current.count + 1,
+      clients: current.clients.includes(client)
+        ? current.clients
+        : [...current.clients, client],
+    },
+  };
+}
+
+// 本地内存存储：未绑定 SIGNED_URL_GUARD 时使用（本地开发和测试），仅在当前 isolate 内有效
+const memorySignedUrlUsages = new Map<
+  string,
+  { usage: SignedUrlUsage; expires: number }
+>();
+
+const memorySignedUrlUsageStore: SignedUrlUsageStore = {
+  async consume(appName, nonce, maxUses, expires, client, resume) {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [storedKey, entry] of memorySignedUrlUsages) {
+      if (entry.expires < now) memorySignedUrlUsages.delete(storedKey);
+    }
+
+    const key = `${appName}:${nonce}`;
+    const result = consumeSignedUrlUsage(
+      memorySignedUrlUsages.get(key)?.usage,
+      maxUses,
+      client,
+      resume,
+    );
+    if (result.usage) {
+      memorySignedUrlUsages.set(key, { usage: result.usage, expires });
+    }
+    return result.allowed;
+  },
+};
+
+function getSignedUrlUsageStore(env: Env): SignedUrlUsageStore {
+  if (!env.SIGNED_URL_GUARD) return memorySignedUrlUsageStore;
+
+  const namespace = env.SIGNED_URL_GUARD;
+  return {
+    // 每个签名URL（nonce）一个 Durable Object 实例
+    consume: (appName, nonce, maxUses, expires, client, resume) =>
+      namespace
+        .get(namespace.idFromName(`${appName}:${nonce}`))
+        .consume(maxUses, expires, client, resume),
+  };
+}
+
+// 签名URL使用次数：Durable Object 单线程执行，保证检查与计数的原子性
+export class SignedUrlGuard extends DurableObject<Env> {
+  async consume(
+    maxUses: number,
+    expires: number,
+    client: string,
+    resume: boolean,
+  ): Promise<boolean> {
+    const result = consumeSignedUrlUsage(
+      await this.ctx.storage.get<SignedUrlUsage>('usage'),
+      maxUses,
+      client,
+      resume,
+    );
+    if (result.usage) {
+      await this.ctx.storage.put('usage', result.usage);
+      // 签名URL过期后清理存储
+      if ((await this.ctx.storage.getAlarm()) === null) {
+        await this.ctx.storage.setAlarm(expires * 1000);
+      }
+    }
+    return result.allowed;
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+// 续传或拖动进度产生的 Range 请求（第一个范围不从 0 开始）：同一客户端使用过签名URL后不再计数
+function isResumedRangeRequest(request: Request): boolean {
+  const match = request.headers
+    .get('Range')
+    ?.match(/^\s*bytes\s*=\s*(\d*)\s*-/i);
+  return !!match && (match[1] === '' || parseInt(match[1], 10) > 0);
+}
+
+// 受保护内容只允许客户端私有缓存，且不超过签名URL的有效期
+function getSignedUrlCacheControl(expires: number): string {
+  const maxAge = Math.max(expires - Math.floor(Date.now() / 1000), 0);
+  return `private, max-age=${maxAge}`;
+}
+
+// 验证签名URL
+async function verifySignedUrl(
+  request: Request,
+  env: Env,
+  url: URL,
+  key: string,
+): Promise<{ valid: boolean; error?: string; expires?: number }> {
+  const app = url.searchParams.get('app');
+  const expires = parseInt(url.searchParams.get('expires') || '', 10);
+  const signature = url.searchParams.get('signature');
+
+  if (!app || isNaN(expires) || !signature) {
+    return { valid: false, error: 'Signed URL required' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (expires < now) {
+    return { valid: false, error: 'Signed URL expired' };
+  }
+
+  let jwtSecrets: JWTSecretsConfig;
+  try {
+    jwtSecrets = JSON.parse(env.JWT_SECRETS || '{}');
+  } catch (error) {
+    return { valid: false, error: 'Invalid JWT_SECRETS configuration' };
+  }
+
+  const verificationKeys = selectVerificationKeys(
+    getAppSigningKeys(jwtSecrets, app),
+    url.searchParams.get('kid') || undefined,
+  );
+  if (verificationKeys.length === 0) {
+    return { valid: false, error: 'Invalid signed URL' };
+  }
+
+  const maxUsesParam = url.searchParams.get('maxUses');
+  const params: SignedUrlParams = {
+    key,
+    app,
+    expires,
+    ip: url.searchParams.get('ip') || undefined,
+    maxUses: maxUsesParam ? parseInt(maxUsesParam, 10) : undefined,
+    nonce: url.searchParams.get('nonce') || undefined,
+  };
+
+  // 使用 crypto.subtle.verify 进行常量时间比较
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = base64UrlDecodeBytes(signature);
+  } catch (error) {
+    return { valid: false, error: 'Invalid signed URL' };
+  }
+
+  const data = new TextEncoder().encode(getSignedUrlPayload(params));
+  let isValid = false;
+  for (const verificationKey of verificationKeys) {
+    const hmacKey = await importHmacKey(verificationKey.secret, 'verify');
+    if (await crypto.subtle.verify('HMAC', hmacKey, signatureBytes, data)) {
+      isValid = true;
+      break;
+    }
+  }
+  if (!isValid) {
+    return { valid: false, error: 'Invalid signed URL' };
+  }
+
+  // IP 绑定
+  if (params.ip && params.ip !== request.headers.get('CF-Connecting-IP')) {
+    return { valid: false, error: 'Signed URL not valid for this client' };
+  }
+
+  // 使用次数限制（HEAD 请求不计数）
+  if (params.maxUses && request.method !== 'HEAD') {
+    if (!params.nonce) {
+      return { valid: false, error: 'Invalid signed URL' };
+    }
+    const allowed = await getSignedUrlUsageStore(env).consume(
+      app,
+      params.nonce,
+      params.maxUses,
+      expires,
+      request.headers.get('CF-Connecting-IP') || '',
+      isResumedRangeRequest(request),
+    );
+    if (!allowed) {
+      return { valid: false, error: 'Signed URL usage limit reached' };
+    }
+  }
+
+  return { valid: true, expires };
+}
+
+// 受保护文件的访问验证：签名URL按请求路径验证，Token 需要允许访问实际读取的文件
+// 返回的 allowedPaths 仅在使用 Token 访问时存在，用于检查站点路径解析后的文件
+async function verifyProtectedAccess(
+  request: Request,
+  env: Env,
+  url: URL,
+  requestKey: string,
+  key: string,
+): Promise<{ error?: Response; expires?: number; allowedPaths?: string[] }> {
+  if (request.headers.get('Authorization')?.startsWith('Bearer ')) {
+    // 也可以使用带 read 权限的 Token 访问
+    const validation = await validateTokenRequest(request, env, 'read', key);
+    if (
+      !validation.valid ||
+      !isPathAllowed(validation.tokenData.allowedPaths, key)
+    ) {
+      return {
+        error: new Response(
+          `Forbidden: ${validation.error || 'Path not allowed for token'}`,
+          { status: 403 },
+        ),
+      };
+    }
+    return {
+      expires: validation.tokenData.exp,
+      allowedPaths: validation.tokenData.allowedPaths,
+    };
+  }
+
+  const signed = await verifySignedUrl(request, env, url, requestKey);
+  if (!signed.valid) {
+    return {
+      error: new Response(`Forbidden: ${signed.error}`, { status: 403 }),
+    };
+  }
+  return { expires: signed.expires };
+}
+
+// 吊销记录保留时间：覆盖 Worker 接受的最长 Token 有效期（1年）
+const REVOCATION_TTL = 366 * 24 * 3600;
+
+// Token 吊销存储（KV 或本地内存）
+interface RevocationStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, ttl: number): Promise<void>;
+}
+
+// 本地内存存储：未绑定 REVOCATIONS 时使用（本地开发和测试），仅在当前 isolate 内有效
+const memoryRevocations = new Map<string, { value: string; expires: number }>();
+
+const memoryRevocationStore: RevocationStore = {
+  async get(key) {
+    const entry = memoryRevocations.get(key);
+    if (!entry) return null;
+    if (entry.expires < Date.now()) {
+      memoryRevocations.delete(key);
+      return null;
+    }
+    return entry.value;
+  },
+  async put(key, value, ttl) {
+    memoryRevocations.set(key, { value, expires: Date.now() + ttl * 1000 });
+  },
+};
+
+function getRevocationStore(env: Env): RevocationStore {
+  if (!env.REVOCATIONS) return memoryRevocationStore;
+
+  const kv = env.REVOCATIONS;
+  return {
+    get: (key) => kv.get(key),
+    put: (key, value, ttl) => kv.put(key, value, { expirationTtl: ttl }),
+  };
+}
+
+// 检查 Token 是否已被吊销（按 jti，或按应用吊销某个时间之前签发的全部 Token）
+async function isTokenRevoked(env: Env, tokenData: any): Promise<boolean> {
+  const store = getRevocationStore(env);
+  const appName = tokenData.appName;
+
+  if (tokenData.jti) {
+    if (await store.get(`jti:${appName}:${tokenData.jti}`)) return true;
+  }
+
+  const revokedBefore = await store.get(`app:${appName}:revokedBefore`);
+  if (revokedBefore) {
+    // 没有 iat 的 Token 无法判断签发时间，视为已吊销
+    const issuedAt = typeof tokenData.iat === 'number' ? tokenData.iat : 0;
+    if (issuedAt < parseInt(revokedBefore, 10)) return true;
+  }
+
+  return false;
+}
+
+// 处理 Token 吊销请求（POST /token/revoke）
+async function handleTokenRevokeRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    // 与 /token 接口使用相同的认证方式，只能吊销本应用的 Token
+    const validation = await validateTokenAPIRequest(request, env);
+    if (!validation.valid || !validation.appName) {
+      return jsonResponse(
+        { error: validation.error || 'Unauthorized', code: 'UNAUTHORIZED' },
+        401,
+      );
+    }
+
+    const appName = validation.appName;
+    const params = (await request.json()) as {
+      jti?: string;
+      issuedBefore?: number | string;
+    };
+
+    if (!params.jti && params.issuedBefore === undefined) {
+      return jsonResponse(
+        { error: 'Missing jti or issuedBefore', code: 'INVALID_REQUEST' },
+        400,
+      );
+    }
+
+    const revokedAt = Math.floor(Date.now() / 1000);
+
+    // issuedBefore 支持 Unix 时间戳（秒，整数）或 ISO 时间字符串，先校验再写入任何吊销记录
+    let issuedBefore: number | undefined;
+    if (params.issuedBefore !== undefined) {
+      issuedBefore =
+        typeof params.issuedBefore === 'number'
+          ? params.issuedBefore
+          : Math.floor(Date.parse(params.issuedBefore) / 1000);
+      if (!Number.isInteger(issuedBefore) || issuedBefore <= 0) {
+        return jsonResponse(
+          {
+            error:
+              'Invalid issuedBefore, expected Unix timestamp in seconds or ISO time',
+            code: 'INVALID_REQUEST',
+          },
+          400,
+        );
+      }
+      // 吊销时间只能前进无法回退，未来时间（包括误传的毫秒时间戳）会让之后签发的 Token 全部失效且无法撤销
+      if (issuedBefore > revokedAt) {
+        return jsonResponse(
+          {
+            error: 'issuedBefore must not be in the future',
+            code: 'INVALID_REQUEST',
+          },
+          400,
+        );
+      }
+    }
+
+    const store = getRevocationStore(env);
+
+    if (params.jti) {
+      if (typeof params.jti !== 'string') {
+        return jsonResponse(
+          { error: 'jti must be a string', code: 'INVALID_REQUEST' },
+          400,
+        );
+      }
+      await store.put(
+        `jti:${appName}:${params.jti}`,
+        revokedAt.toString(),
+        REVOCATION_TTL,
+      );
+    }
+
+    if (issuedBefore !== undefined) {
+      // 只能向后推进，避免误操作恢复已吊销的 Token
+      const key = `app:${appName}:revokedBefore`;
+      const current = parseInt((await store.get(key)) || '0', 10);
+      issuedBefore = Math.max(issuedBefore, current);
+      await store.put(key, issuedBefore.toString(), REVOCATION_TTL);
+    }
+
+    return jsonResponse(
+      {
+        success: true,
+        message: 'Token revoked',
+        data: {
+          app: appName,
+          ...(params.jti && { jti: params.jti }),
+          ...(issuedBefore !== undefined && { issuedBefore }),
+          revokedAt,
+        },
+      },
+      200,
+    );
+  } catch (error) {
+    console.error('Token revoke error:', error);
+    return jsonResponse(
+      {
+        error: 'Token revocation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'TOKEN_ERROR',
+      },
+      500,
+    );
+  }
+}
+
+// 处理签名URL生成请求
+async function handleSignRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    // 与 /token 接口使用相同的认证方式
+    const validation = await validateTokenAPIRequest(request, env);
+    if (!validation.valid || !validation.appName) {
+      return jsonResponse(
+        { error: validation.error || 'Unauthorized', code: 'UNAUTHORIZED' },
+        401,
+      );
+    }
+
+    const appName = validation.appName;
+
+    let jwtSecrets: JWTSecretsConfig;
+    try {
+      jwtSecrets = JSON.parse(env.JWT_SECRETS || '{}');
+    } catch (error) {
+      return jsonResponse(
+        { error: 'Invalid JWT_SECRETS configuration', code: 'CONFIG_ERROR' },
+        500,
+      );
+    }
+
+    const signingKey = getActiveSigningKey(jwtSecrets, appName);
+    if (!signingKey) {
+      return jsonResponse(
+        {
+          error: `No JWT secret configured for app: ${appName}`,
+          code: 'CONFIG_ERROR',
+        },
+        500,
+      );
+    }
+
+    const params = (await request.json()) as {
+      key?: string;
+      keys?: string[];
+      expiresIn?: number;
+      ip?: string;
+      maxUses?: number;
+    };
+
+    const keys = params.keys || (params.key ? [params.key] : []);
+    if (keys.length === 0) {
+      return jsonResponse(
+        { error: 'Missing key or keys', code: 'INVALID_REQUEST' },
+        400,
+      );
+    }
+
+    // 只能为应用策略允许的路径下的文件签名
+    const policyResult = getTokenPolicy(env, appName);
+    if (!policyResult.policy) {
+      return jsonResponse(
+        { error: policyResult.error, code: 'CONFIG_ERROR' },
+        500,
+      );
+    }
+
+    for (const key of keys) {
+      if (
+        typeof key !== 'string' ||
+        key.includes('*') ||
+        !isPathWithinRoots(key, policyResult.policy.pathRoots) ||
+        isReservedKey(key)
+      ) {
+        return jsonResponse(
+          { error: `Path not allowed for app: ${key}`, code: 'INVALID_PATH' },
+          403,
+        );
+      }
+    }
+
+    if (
+      params.maxUses !== undefined &&
+      (!Number.isInteger(params.maxUses) || params.maxUses < 1)
+    ) {
+      return jsonResponse(
+        {
+          error: 'maxUses must be a positive integer',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
+    }
+
+    const expiresIn = Math.min(
+      params.expiresIn || SIGNED_URL_DEFAULT_EXPIRES_IN,
+      SIGNED_URL_MAX_EXPIRES_IN,
+    );
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const origin = new URL(request.url).origin;
+
+    const urls = await Promise.all(
+      keys.map(async (key) => ({
+        key,
+        url: await createSignedUrl(
+          origin,
+          {
+            key,
+            app: appName,
+            expires,
+            ip: params.ip,
+            maxUses: params.maxUses,
+            // 每个限次 URL 使用独立的计数
+            nonce: params.maxUses ? crypto.randomUUID() : undefined,
+          },
+          signingKey,
+        ),
+      })),
+    );
+
+    return jsonResponse(
+      {
+        success: true,
+        data: {
+          urls,
+          expiresIn,
+          expires,
+          ...(params.ip && { ip: params.ip }),
+          ...(params.maxUses && { maxUses: params.maxUses }),
+        },
+      },
+      200,
+    );
+  } catch (error) {
+    console.error('Sign URL error:', error);
+    return jsonResponse(
+      {
+        error: 'Failed to sign URL',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'SIGN_ERROR',
+      },
+      500,
+    );
+  }
+}
+
+// JWT解密函数（使用Web Crypto API）
+async function parseJWTToken(
+  token: string,
+  secrets: JWTSecretsConfig,
+): Promise<{
+  valid: boolean;
+  payload?: any;
+  error?: string;
+  external?: boolean; // 公钥签名（外部系统签发）的 Token
+}> {
+  // 输入验证
+  if (!token || typeof token !== 'string') {
+    return { valid: false, error: 'Invalid token format' };
+  }
+
+  if (!secrets || typeof secrets !== 'object') {
+    return { valid: false, error: 'Invalid secrets configuration' };
+  }
+
+  try {
+    const parts = token.split('.');
+
+    // 必须是JWT格式（header.payload.signature）
+    if (parts.length !== 3) {
+      return { valid: false, error: 'Token must be in JWT format' };
+    }
+
+    // 安全的Base64解码函数
+    const safeBase64Decode = (str: string): any => {
+      try {
+        // Base64URL 转 Base64 并补齐padding
+        const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+        const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+        return JSON.parse(atob(padded));
+      } catch (error) {
+        throw new Error('Invalid Base64 encoding');
+      }
+    };
+
+    // 解析Payload获取appName
+    const payload = safeBase64Decode(parts[1]);
+
+    // 验证应用名称
+    if (!payload.appName || typeof payload.appName !== 'string') {
+      return { valid: false, error: 'JWT payload must contain valid appName' };
+    }
+
+    if (!secrets[payload.appName]) {
+      return {
+        valid: false,
+        error: `No JWT secret configured for app: ${payload.appName}`,
+      };
+    }
+
+    // 验证过期时间
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.exp && typeof payload.exp === 'number') {
+      if (payload.exp < now) {
+        return { valid: false, error: 'Token expired' };
+      }
+      // 可选：检查过期时间是否合理（不超过1年）
+      const maxExp = now + 365 * 24 * 60 * 60;
+      if (payload.exp > maxExp) {
+        return { valid: false, error: 'Token expiration too far in future' };
+      }
+    } else {
+      return {
+        valid: false,
+        error: 'JWT payload must contain exp (expiration time)',
+      };
+    }
+
+    // 解析header
+    const header = safeBase64Decode(parts[0]);
+
+    // 验证JWT格式（typ 可省略）
+    if (header.typ !== undefined && header.typ !== 'JWT') {
+      return { valid: false, error: 'Invalid JWT format' };
+    }
+
+    // 安全的Base64解码签名
+    let signatureArray: Uint8Array;
+    try {
+      signatureArray = base64UrlDecodeBytes(parts[2]);
+    } catch (error) {
+      return { valid: false, error: 'Invalid signature encoding' };
+    }
+
+    const data = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    const asymmetricAlgorithm = ASYMMETRIC_JWT_ALGORITHMS.get(header.alg);
+
+    if (header.alg === 'HS256') {
+      const appKeys = getAppSigningKeys(secrets, payload.appName);
+      if (appKeys.length === 0) {
+        return {
+          valid: false,
+          error: `Invalid secret configured for app: ${payload.appName}`,
+        };
+      }
+
+      // 根据 kid 选择密钥（没有 kid 的旧 Token 尝试所有未退役的密钥）
+      const verificationKeys = selectVerificationKeys(appKeys, header.kid);
+      if (verificationKeys.length === 0) {
+        return {
+          valid: false,
+          error: `Unknown or retired signing key: ${header.kid}`,
+        };
+      }
+
+      // 使用Web Crypto API进行HMAC验证
+      let isValid = false;
+      for (const verificationKey of verificationKeys) {
+        const key = await importHmacKey(verificationKey.secret, 'verify');
+        if (await crypto.subtle.verify('HMAC', key, signatureArray, data)) {
+          isValid = true;
+          break;
+        }
+      }
+
+      if (!isValid) {
+        return { valid: false, error: 'Invalid JWT signature' };
+      }
+    } else if (asymmetricAlgorithm) {
+      let publicKeys: PublicJWK[];
+      try {
+        publicKeys = await getAppPublicKeys(
+          secrets,
+          payload.appName,
+          header.kid,
+        );
+      } catch (error) {
+        return { valid: false, error: 'Failed to load JWKS' };
+      }
+
+      const verificationKeys = selectPublicKeys(
+        publicKeys,
+        asymmetricAlgorithm,
+        header.kid,
+      );
+      if (verificationKeys.length === 0) {
+        return {
+          valid: false,
+          error: header.kid
+            ? `Unknown signing key: ${header.kid}`
+            : `No ${header.alg} public key configured for app: ${payload.appName}`,
+        };
+      }
+
+      let isValid = false;
+      for (const jwk of verificationKeys) {
+        try {
+          const key = await crypto.subtle.importKey(
+            'jwk',
+            jwk,
+            asymmetricAlgorithm.importAlgorithm,
+            false,
+            ['verify'],
+          );
+          if (
+            await crypto.subtle.verify(
+              asymmetricAlgorithm.verifyAlgorithm,
+              key,
+              signatureArray,
+              data,
+            )
+          ) {
+            isValid = true;
+            break;
+          }
+        } catch (error) {
+          console.error('JWK import error:', error);
+        }
+      }
+
+      if (!isValid) {
+        return { valid: false, error: 'Invalid JWT signature' };
+      }
+
+      // 公钥签名的 Token 由外部系统签发，必须校验受众和签发方
+      const appConfig = secrets[payload.appName] as AppJWTConfig;
+      if (appConfig.audience === undefined || appConfig.issuer === undefined) {
+        return {
+          valid: false,
+          error: `JWKS requires audience and issuer for app: ${payload.appName}`,
+        };
+      }
+      if (!matchesExpectedClaim(appConfig.audience, payload.aud)) {
+        return { valid: false, error: 'Invalid JWT audience' };
+      }
+      if (!matchesExpectedClaim(appConfig.issuer, payload.iss)) {
+        return { valid: false, error: 'Invalid JWT issuer' };
+      }
+
+      return { valid: true, payload, external: true };
+    } else {
+      return {
+        valid: false,
+        error: `Unsupported JWT algorithm: ${header.alg} (supported: HS256, ${[...ASYMMETRIC_JWT_ALGORITHMS.keys()].join(', ')})`,
+      };
+    }
+
+    return { valid: true, payload };
+  } catch (error) {
+    console.error('JWT parsing error:', error);
+    return { valid: false, error: 'Failed to parse JWT token' };
+  }
+}
+
+// Token 可授权的操作
+type TokenOperation = 'read' | 'write' | 'delete' | 'list';
+
+const TOKEN_OPERATIONS: TokenOperation[] = ['read', 'write', 'delete', 'list'];
+
+// 未声明 operations 的 Token（包括旧 Token）只允许上传
+const DEFAULT_TOKEN_OPERATIONS: TokenOperation[] = ['write'];
+
+// Token 的 sub（最终用户标识）格式，会出现在上传路径中
+const SUBJECT_PATTERN = /^[A-Za-z0-9_@-][A-Za-z0-9._@-]{0,127}$/;
+
+// 验证上传请求的安全性（仅支持JWT Token）
+async function validateUploadRequest(
+  request: Request,
+  env: Env,
+  key: string,
+): Promise<{ valid: boolean; error?: string; tokenData?: any }> {
+  const validation = await validateTokenRequest(request, env, 'write', key);
+  if (!validation.valid) {
+    return validation;
+  }
+
+  // 验证路径权限
+  if (!isPathAllowed(validation.tokenData.allowedPaths, key)) {
+    return { valid: false, error: `Path not allowed for token: ${key}` };
+  }
+
+  return validation;
+}
+
+// 上传接口限流：按 Token 所属应用计数，凭证为上传 Token（有 jti 时使用 jti）
+async function checkUploadRateLimit(
+  request: Request,
+  env: Env,
+  tokenData: any,
+): Promise<Response | null> {
+  const credential =
+    tokenData.jti || (request.headers.get('Authorization') || '').substring(7);
+  // IP 规则在验证 Token 之前按 Token 声明的应用检查（见 checkClientRateLimit）
+  return checkRateLimit(request, env, 'upload', tokenData.appName, credential, [
+    'app',
+    'key',
+  ]);
+}
+
+// 验证请求中的 JWT Token 及其操作权限（路径权限由调用方检查）
+// 来源策略按请求的文件路径匹配，没有具体路径时（列表、批量删除等）按 Token 所属应用的路径 <appName>/ 匹配
+async function validateTokenRequest(
+  request: Request,
+  env: Env,
+  operation: TokenOperation,
+  key?: string,
+): Promise<{ valid: boolean; error?: string; tokenData?: any }> {
+  // 检查临时token
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return { valid: false, error: 'Missing or invalid authorization header' };
+  }
+
+  const token = authHeader.substring(7);
+
+  // 解析多应用JWT密钥配置（必须配置）
+  let jwtSecrets: JWTSecretsConfig;
+  if (env.JWT_SECRETS) {
+    try {
+      jwtSecrets = JSON.parse(env.JWT_SECRETS);
+    } catch (error) {
+      console.error('Failed to parse JWT_SECRETS:', error);
+      return { valid: false, error: 'Invalid JWT_SECRETS configuration' };
+    }
+  } else {
+    return { valid: false, error: 'JWT_SECRETS must be configured' };
+  }
+
+  // 验证JWT Token（必须格式）
+  const tokenResult = await parseJWTToken(token, jwtSecrets);
+  if (!tokenResult.valid) {
+    return { valid: false, error: tokenResult.error || 'Invalid JWT token' };
+  }
+
+  let tokenData = tokenResult.payload;
+  if (tokenResult.external) {
+    const policyResult = applyExternalTokenPolicy(env, tokenData);
+    if (!policyResult.tokenData) {
+      return { valid: false, error: policyResult.error };
+    }
+    tokenData = policyResult.tokenData;
+  }
+  const now = Math.floor(Date.now() / 1000);
+
+  // 检查过期时间
+  if (tokenData.exp && tokenData.exp < now) {
+    return { valid: false, error: 'Token expired' };
+  }
+
+  // 检查是否已被吊销
+  if (await isTokenRevoked(env, tokenData)) {
+    return { valid: false, error: 'Token revoked' };
+  }
+
+  // 验证操作权限
+  const operations: string[] = Array.isArray(tokenData.operations)
+    ? tokenData.operations
+    : DEFAULT_TOKEN_OPERATIONS;
+  if (!operations.includes(operation)) {
+    return {
+      valid: false,
+      error: `Operation not allowed for token: ${operation}`,
+    };
+  }
+
+  // 验证请求来源（读取文件使用访问策略，其他操作使用上传策略）
+  const originCheck = checkOriginPolicy(
+    request,
+    env,
+    operation === 'read' ? 'read' : 'upload',
+    key ?? `${tokenData.appName}/`,
+  );
+  if (!originCheck.allowed) {
+    return { valid: false, error: originCheck.error };
+  }
+
+  return { valid: true, tokenData };
+}
+
+// 检查路径是否在 Token 的 allowedPaths 范围内
+// 规则："*" 允许所有路径，"prefix/*" 允许该前缀下的路径，其他为精确匹配
+function isPathAllowed(
+  allowedPaths: string[] | undefined,
+  key: string,
+): boolean {
+  if (!allowedPaths || allowedPaths.includes('*')) return true;
+
+  return allowedPaths.some((pattern: string) => {
+    if (pattern.endsWith('/*')) {
+      return key.startsWith(pattern.slice(0, -1));
+    }
+    return key === pattern;
+  });
+}
+
+// 检查列表前缀是否在 Token 的通配路径范围内：精确路径只授权单个文件，
+// 不能作为前缀列出以其开头的其他文件（如 <key>.avif、<key>.bak）
+function isListPrefixAllowed(
+  allowedPaths: string[] | undefined,
+  prefix: string,
+): boolean {
+  if (!allowedPaths || allowedPaths.includes('*')) return true;
+
+  return allowedPaths.some(
+    (pattern: string) =>
+      pattern.endsWith('/*') && prefix.startsWith(pattern.slice(0, -1)),
+  );
+}
+
+// 验证文件路径安全性
+function validateFilePath(key: string): { valid: boolean; error?: string } {
+  // 禁止路径遍历攻击
+  if (key.includes('..') || key.includes('//') || key.startsWith('/')) {
+    return { valid: false, error: 'Invalid file path' };
+  }
+
+  // 禁止写入内部保留路径
+  if (isReservedKey(key)) {
+    return { valid: false, error: 'Reserved file path' };
+  }
+
+  // 检查文件扩展名是否在允许列表中（预压缩文件检查原文件的扩展名）
+  const allowedExtensions = Object.keys(CONTENT_TYPES);
+  const contentKey = getPrecompressedSource(key)?.key || key;
+  const ext = contentKey.substring(contentKey.lastIndexOf('.')).toLowerCase();
+
+  if (!allowedExtensions.includes(ext)) {
+    return { valid: false, error: 'File type not allowed' };
+  }
+
+  // 限制路径长度
+  if (key.length > 500) {
+    return { valid: false, error: 'File path too long' };
+  }
+
+  return { valid: true };
+}
+
+// 流式上传时内部分片的大小（未知长度的上传按此大小分片写入 R2）
+const STREAM_UPLOAD_PART_SIZE = 10 * 1024 * 1024; // 10MB
+
+// multipart/form-data 单个分段头部的最大长度
+const MAX_FORM_PART_HEADER_SIZE = 16 * 1024;
+
+// multipart/form-data 中文件之前的普通字段的最大长度
+const MAX_FORM_FIELD_SIZE = 8 * 1024;
+
+// 流式上传的字节计数状态
+interface StreamUploadState {
+  bytes: number;
+  exceeded: boolean;
+}
+
+// 计数流：累计字节数，超过限制时立即中止
+function createSizeLimitedStream(
+  body: ReadableStream<Uint8Array>,
+  limit: number,
+): { stream: ReadableStream<Uint8Array>; state: StreamUploadState } {
+  const state: StreamUploadState = { bytes: 0, exceeded: false };
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      state.bytes += chunk.byteLength;
+      if (state.bytes > limit) {
+        state.exceeded = true;
+        controller.error(
+          new Error(`File too large. Maximum size: ${limit} bytes`),
+        );
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+
+  return { stream: body.pipeThrough(counter), state };
+}
+
+// 读取流开头的若干字节（用于识别文件类型），返回文件头和包含完整内容的新流
+async function peekStream(
+  body: ReadableStream<Uint8Array>,
+  size: number,
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let head: Uint8Array = new Uint8Array(0);
+  let done = false;
+
+  while (head.byteLength < size) {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+      break;
+    }
+    chunks.push(result.value);
+    head = concatBytes(head, result.value);
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      const result = await reader.read();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { head: head.subarray(0, size), stream };
+}
+
+// 校验文件尾签名（如 DMG）：最后的字节暂不写出，流结束时校验通过才写出，否则流出错，R2 写入被中止
+function createTrailerVerifyStream(
+  body: ReadableStream<Uint8Array>,
+  key: string,
+): {
+  stream: ReadableStream<Uint8Array>;
+  state: { mismatch: boolean; error?: string };
+} {
+  const state: { mismatch: boolean; error?: string } = { mismatch: false };
+  const ext = key.substring(key.lastIndexOf('.')).toLowerCase();
+  const trailer = TRAILER_SIGNATURES[ext];
+  if (!trailer) {
+    return { stream: body, state };
+  }
+
+  let tail: Uint8Array = new Uint8Array(0);
+  const verifier = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      tail = concatBytes(tail, chunk);
+      if (tail.byteLength > trailer.length) {
+        controller.enqueue(tail.subarray(0, tail.byteLength - trailer.length));
+        tail = tail.subarray(tail.byteLength - trailer.length);
+      }
+    },
+    flush(controller) {
+      if (
+        tail.byteLength < trailer.length ||
+        !matchesMagicSignature(tail, [{ offset: 0, hex: trailer.hex }])
+      ) {
+        state.mismatch = true;
+        state.error = `File content does not match ${ext}`;
+        controller.error(new Error(state.error));
+        return;
+      }
+      controller.enqueue(tail);
+    },
+  });
+
+  return { stream: body.pipeThrough(verifier), state };
+}
+
+// 未提供校验和时，不超过该大小的二进制流上传先读入内存计算 SHA-256，以便写入 customMetadata
+// 更大的文件必须提供校验和（R2 不支持写入后单独修改元数据）
+const INTEGRITY_BUFFER_LIMIT = 10 * 1024 * 1024; // 10MB
+
+// 解析客户端提供的 SHA-256：X-Checksum-SHA256（十六进制或 Base64）或 Content-Digest（RFC 9530）
+function parseChecksumHeaders(request: Request): {
+  sha256?: string;
+  error?: string;
+} {
+  let value = request.headers.get('X-Checksum-SHA256')?.trim();
+  if (!value) {
+    const contentDigest = request.headers.get('Content-Digest');
+    const match = contentDigest?.match(/(?:^|,)\s*sha-256=:([^:]*):/i);
+    if (!match) return {};
+    value = match[1];
+  }
+
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    return { sha256: value.toLowerCase() };
+  }
+  try {
+    const bytes = base64UrlDecodeBytes(value);
+    if (bytes.byteLength === 32) {
+      return { sha256: bytesToHex(bytes) };
+    }
+  } catch (error) {
+    // 按无效格式处理
+  }
+  return { error: 'Invalid SHA-256 checksum header' };
+}
+
+// 流式计算 SHA-256；提供 expected 时最后一个分块在校验通过后才写出，不匹配时流出错，R2 写入被中止
+function createDigestVerifyStream(
+  body: ReadableStream<Uint8Array>,
+  expected?: string,
+): {
+  stream: ReadableStream<Uint8Array>;
+  state: { sha256?: string; mismatch: boolean };
+} {
+  const state: { sha256?: string; mismatch: boolean } = { mismatch: false };
+  const digestStream = new crypto.DigestStream('SHA-256');
+  const writer = digestStream.getWriter();
+  let held: Uint8Array | null = null;
+
+  const verifier = new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      await writer.write(chunk);
+      if (!expected) {
+        controller.enqueue(chunk);
+        return;
+      }
+      if (held) controller.enqueue(held);
+      held = chunk;
+    },
+    async flush(controller) {
+      await writer.close();
+      state.sha256 = bytesToHex(await digestStream.digest);
+      if (expected && state.sha256 !== expected) {
+        state.mismatch = true;
+        controller.error(new Error('SHA-256 checksum mismatch'));
+        return;
+      }
+      if (held) controller.enqueue(held);
+    },
+  });
+
+  return { stream: body.pipeThrough(verifier), state };
+}
+
+// 上传文件的自定义元数据：客户端设置的元数据，以及内容哈希和上传用户（Token 的 sub）
+function getUploadCustomMetadata(
+  tokenData: any,
+  sha256?: string,
+  clientMetadata: Record<string, string> = {},
+): Record<string, string> {
+  const customMetadata: Record<string, string> = { ...clientMetadata };
+  if (sha256) customMetadata.sha256 = sha256;
+  if (typeof tokenData?.sub === 'string') customMetadata.sub = tokenData.sub;
+  return customMetadata;
+}
+
+// 上传时可设置的 HTTP 元数据：请求头或表单字段（表单字段需位于 file 字段之前）
+const UPLOAD_HTTP_METADATA_FIELDS: {
+  field:
+    | 'contentDisposition'
+    | 'contentEncoding'
+    | 'contentLanguage'
+    | 'cacheControl';
+  header: string;
+  formField: string;
+}[] = [
+  {
+    field: 'contentDisposition',
+    header: 'X-Upload-Content-Disposition',
+    formField: 'contentDisposition',
+  },
+  {
+    field: 'contentEncoding',
+    header: 'X-Upload-Content-Encoding',
+    formField: 'contentEncoding',
+  },
+  {
+    field: 'contentLanguage',
+    header: 'X-Upload-Content-Language',
+    formField: 'contentLanguage',
+  },
+  {
+    field: 'cacheControl',
+    header: 'X-Upload-Cache-Control',
+    formField: 'cacheControl',
+  },
+];
+
+// 自定义元数据的请求头 / 表单字段前缀，读取时以同样的前缀返回
+const CUSTOM_METADATA_PREFIX = 'x-meta-';
+
+// Worker 生成的预压缩文件记录原文件的 ETag，原文件被覆盖或删除时一并删除
+const PRECOMPRESSED_SOURCE_METADATA = 'source-etag';
+
+// 由 Worker 写入的自定义元数据，客户端不能设置，也不通过 X-Meta-* 返回
+const SYSTEM_METADATA_KEYS = ['sha256', 'sub', PRECOMPRESSED_SOURCE_METADATA];
+
+// 客户端自定义元数据的限制（R2 customMetadata 总大小上限为 2KB，预留系统元数据的空间）
+const MAX_CUSTOM_METADATA_SIZE = 1536;
+const CUSTOM_METADATA_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// 生成 Content-Disposition，非 ASCII 文件名按 RFC 5987 编码（filename* 参数），并提供 ASCII 兼容名
+function formatContentDisposition(
+  filename: string,
+  type = 'attachment',
+): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  if (fallback === filename) {
+    return `${type}; filename="${filename}"`;
+  }
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// 解析上传请求中的元数据（请求头和表单字段，表单字段优先）
+function parseUploadMetadata(
+  headers: Headers,
+  fields: Record<string, string> = {},
+  requiredEncoding?: string,
+): {
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+  error?: string;
+} {
+  const httpMetadata: R2HTTPMetadata = {};
+  const customMetadata: Record<string, string> = {};
+  const fail = (error: string) => ({ httpMetadata, customMetadata, error });
+
+  for (const { field, header, formField } of UPLOAD_HTTP_METADATA_FIELDS) {
+    const value = (fields[formField] ?? headers.get(header))?.trim();
+    if (!value) continue;
+    if (value.length > 1024 || !/^[\x20-\x7e]+$/.test(value)) {
+      return fail(`Invalid ${field}`);
+    }
+    httpMetadata[field] = value;
+  }
+
+  // 内容编码：只接受 Worker 能解码的格式，以便按解码后的内容校验文件类型
+  const contentEncoding = httpMetadata.contentEncoding?.toLowerCase();
+  if (contentEncoding === 'identity') {
+    delete httpMetadata.contentEncoding;
+  } else if (contentEncoding) {
+    if (!DECOMPRESSIBLE_ENCODINGS.includes(contentEncoding)) {
+      return fail(
+        `Unsupported contentEncoding: ${contentEncoding}. Supported: ${DECOMPRESSIBLE_ENCODINGS.join(', ')}`,
+      );
+    }
+    httpMetadata.contentEncoding = contentEncoding;
+  }
+  // 预压缩文件（<key>.gz）的编码由扩展名决定
+  if (requiredEncoding) {
+    if (
+      httpMetadata.contentEncoding &&
+      httpMetadata.contentEncoding !== requiredEncoding
+    ) {
+      return fail(
+        `Invalid contentEncoding for precompressed file: ${httpMetadata.contentEncoding}`,
+      );
+    }
+    httpMetadata.contentEncoding = requiredEncoding;
+  }
+
+  // 下载文件名：请求头需 URL 编码（非 ASCII 字符），表单字段直接使用
+  let downloadFilename = fields.downloadFilename;
+  const filenameHeader = headers.get('X-Download-Filename');
+  if (downloadFilename === undefined && filenameHeader) {
+    try {
+      downloadFilename = decodeURIComponent(filenameHeader);
+    } catch (error) {
+      return fail('Invalid download filename');
+    }
+  }
+  if (downloadFilename !== undefined && !httpMetadata.contentDisposition) {
+    if (
+      !downloadFilename ||
+      downloadFilename.length > 255 ||
+      /[\x00-\x1f\x7f/\\]/.test(downloadFilename)
+    ) {
+      return fail('Invalid download filename');
+    }
+    httpMetadata.contentDisposition =
+      formatContentDisposition(downloadFilename);
+  }
+
+  const entries = [
+    ...headers.entries(),
+    ...Object.entries(fields).map(
+      ([name, value]) => [name.toLowerCase(), value] as [string, string],
+    ),
+  ];
+  let size = 0;
+  for (const [name, value] of entries) {
+    if (!name.startsWith(CUSTOM_METADATA_PREFIX)) continue;
+    const key = name.slice(CUSTOM_METADATA_PREFIX.length);
+    if (
+      !CUSTOM_METADATA_NAME_PATTERN.test(key) ||
+      SYSTEM_METADATA_KEYS.includes(key)
+    ) {
+      return fail(`Invalid metadata name: ${name}`);
+    }
+    // 元数据会作为响应头返回，只允许可打印 ASCII 字符
+    if (!/^[\x20-\x7e]*$/.test(value)) {
+      return fail(`Invalid metadata value: ${name}`);
+    }
+    customMetadata[key] = value;
+  }
+  for (const [key, value] of Object.entries(customMetadata)) {
+    size += key.length + new TextEncoder().encode(value).byteLength;
+  }
+  if (size > MAX_CUSTOM_METADATA_SIZE) {
+    return fail(
+      `Custom metadata too large. Maximum: ${MAX_CUSTOM_METADATA_SIZE} bytes`,
+    );
+  }
+
+  return { httpMetadata, customMetadata };
+}
+
+// 上传时由 Worker 生成预压缩文件的大小上限（压缩结果需要读入内存）
+const PRECOMPRESS_SIZE_LIMIT = 10 * 1024 * 1024; // 10MB
+
+// 上传时可以由 Worker 生成的预压缩编码（CompressionStream 支持的格式）
+const PRECOMPRESS_ENCODINGS = ['gzip'];
+
+// 上传后更新 Worker 生成的预压缩文件（<key>.gz）：要求生成时用 CompressionStream 压缩原文件，
+// 压缩后没有变小时不保存；否则删除之前生成的预压缩文件，避免继续返回旧内容
+async function updatePrecompressedFile(
+  env: Env,
+  appName: string,
+  source: R2Object,
+  encoding: string | null,
+): Promise<{ key: string; size: number; encoding: string } | null> {
+  const precompressed = PRECOMPRESSED_ENCODINGS.find(
+    (item) => item.encoding === (encoding || 'gzip'),
+  )!;
+  const key = `${source.key}${precompressed.suffix}`;
+  if (!isCompressible(source.key)) return null;
+
+  if (
+    encoding &&
+    !source.httpMetadata?.contentEncoding &&
+    source.size <= PRECOMPRESS_SIZE_LIMIT
+  ) {
+    const original = await env.CDN_BUCKET.get(source.key, {
+      onlyIf: { etagMatches: source.etag },
+    });
+    const compressed =
+      original && 'body' in original
+        ? await new Response(
+            original.body.pipeThrough(
+              new CompressionStream(encoding as 'gzip' | 'deflate'),
+            ),
+          ).arrayBuffer()
+        : null;
+
+    if (compressed && compressed.byteLength < source.size) {
+      const quotaResult = await reserveStorageQuota(
+        env,
+        appName,
+        key,
+        compressed.byteLength,
+      );
+      if (quotaResult.reservation) {
+        // 原文件的 sha256 与压缩后的内容不一致，不复制
+        const { sha256, ...customMetadata } = source.customMetadata || {};
+        try {
+          await env.CDN_BUCKET.put(key, compressed, {
+            httpMetadata: { ...source.httpMetadata, contentEncoding: encoding },
+            customMetadata: {
+              ...customMetadata,
+              [PRECOMPRESSED_SOURCE_METADATA]: source.etag,
+            },
+          });
+        } catch (error) {
+          await settleStorageReservation(env, quotaResult.reservation, null);
+          throw error;
+        }
+        await settleStorageReservation(
+          env,
+          quotaResult.reservation,
+          compressed.byteLength,
+        );
+        return { key, size: compressed.byteLength, encoding };
+      }
+    }
+  }
+
+  const existing = await env.CDN_BUCKET.head(key);
+  if (existing?.customMetadata?.[PRECOMPRESSED_SOURCE_METADATA]) {
+    await env.CDN_BUCKET.delete(key);
+    await recordStorageDeletion(env, appName, existing.size, 1);
+  }
+  return null;
+}
+
+// 校验和不匹配的响应
+function createChecksumMismatchResponse(): Response {
+  return jsonResponse(
+    {
+      error: 'Uploaded content does not match the SHA-256 checksum',
+      code: 'CHECKSUM_MISMATCH',
+    },
+    400,
+  );
+}
+
+// 需要哈希但客户端未提供校验和时的响应
+function createChecksumRequiredResponse(reason: string): Response {
+  return jsonResponse(
+    {
+      error: `${reason} require a SHA-256 checksum header (X-Checksum-SHA256 or Content-Digest)`,
+      code: 'CHECKSUM_REQUIRED',
+    },
+    400,
+  );
+}
+
+// 内容寻址模式下的存储路径：<prefix>/<sha256>.<ext>
+function getContentAddressedKey(
+  prefix: string,
+  key: string,
+  sha256: string,
+): string {
+  const ext = key.substring(key.lastIndexOf('.')).toLowerCase();
+  return `${prefix.replace(/\/+$/, '')}/${sha256}${ext}`;
+}
+
+// 上传路径模板（Token 的 keyTemplate）支持的变量
+const KEY_TEMPLATE_VARIABLES = [
+  'app',
+  'sub',
+  'yyyy',
+  'mm',
+  'dd',
+  'uuid',
+  'sha256',
+  'ext',
+];
+
+// 检查路径模板只使用支持的变量
+function validateKeyTemplate(template: string): string | null {
+  const unknown = [...template.matchAll(/\{(\w+)\}/g)]
+    .map((match) => match[1])
+    .find((name) => !KEY_TEMPLATE_VARIABLES.includes(name));
+  return unknown !== undefined
+    ? `Unknown key template variable: {${unknown}}`
+    : null;
+}
+
+// 展开路径模板，未提供的变量保持原样
+function expandKeyTemplate(
+  template: string,
+  variables: Record<string, string | undefined>,
+): string {
+  return template.replace(
+    /\{(\w+)\}/g,
+    (match, name: string) => variables[name] ?? match,
+  );
+}
+
+// 生成路径模板的变量（日期使用 UTC），{sha256} 在计算哈希后单独展开
+function getKeyTemplateVariables(
+  appName: string,
+  sub: string | undefined,
+  ext: string,
+): Record<string, string> {
+  const now = new Date();
+  return {
+    app: appName,
+    ...(sub !== undefined && { sub }),
+    yyyy: String(now.getUTCFullYear()),
+    mm: String(now.getUTCMonth() + 1).padStart(2, '0'),
+    dd: String(now.getUTCDate()).padStart(2, '0'),
+    uuid: crypto.randomUUID(),
+    ext,
+  };
+}
+
+// 确定生成路径使用的扩展名：优先取文件名，否则按文件头识别
+function resolveUploadExtension(
+  filename: string | undefined,
+  head: Uint8Array,
+  allowedExtensions?: string[],
+): string | null {
+  if (filename && filename.includes('.')) {
+    return filename.substring(filename.lastIndexOf('.')).toLowerCase();
+  }
+
+  const contentType = sniffContentType(head);
+  if (!contentType) return null;
+  const candidates = Object.keys(CONTENT_TYPES).filter(
+    (ext) => CONTENT_TYPES[ext] === contentType,
+  );
+  return (
+    candidates.find((ext) => allowedExtensions?.includes(ext)) || candidates[0]
+  );
+}
+
+// 校验上传路径和扩展名（扩展名需在 Token 允许的列表中）
+function validateUploadKey(key: string, tokenData: any): Response | null {
+  const pathValidation = validateFilePath(key);
+  if (!pathValidation.valid) {
+    return jsonResponse(
+      { error: pathValidation.error, code: 'INVALID_PATH' },
+      400,
+    );
+  }
+
+  if (tokenData && tokenData.allowedExtensions) {
+    const contentKey = getPrecompressedSource(key)?.key || key;
+    const fileExt = contentKey
+      .substring(contentKey.lastIndexOf('.'))
+      .toLowerCase();
+    if (!tokenData.allowedExtensions.includes(fileExt)) {
+      return jsonResponse(
+        {
+          error: `File extension not allowed: ${fileExt}. Allowed: ${tokenData.allowedExtensions.join(
+            ', ',
+          )}`,
+          code: 'EXTENSION_NOT_ALLOWED',
+        },
+        400,
+      );
+    }
+  }
+
+  return null;
+}
+
+// 校验站点文件只上传到托管站点的路径下（预压缩文件检查原文件的扩展名）
+async function validateHostingUploadKey(
+  env: Env,
+  key: string,
+): Promise<Response | null> {
+  const contentKey = getPrecompressedSource(key)?.key || key;
+  const fileExt = contentKey
+    .substring(contentKey.lastIndexOf('.'))
+    .toLowerCase();
+  if (!HOSTING_FILE_EXTENSIONS.includes(fileExt)) {
+    return null;
+  }
+
+  const rules = await getHostingRules(env);
+  if (rules.some((rule) => key.startsWith(rule.prefix))) {
+    return null;
+  }
+  return jsonResponse(
+    {
+      error: `File extension ${fileExt} is only allowed under a hosting prefix`,
+      code: 'EXTENSION_NOT_ALLOWED',
+    },
+    400,
+  );
+}
+
+// 上传的写入条件：客户端的 If-Match / If-None-Match，Token 不允许覆盖时强制 If-None-Match: *
+function getUploadConditions(
+  request: Request,
+  allowOverwrite: boolean,
+): Headers | undefined {
+  const conditions = new Headers();
+  const ifMatch = request.headers.get('If-Match');
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifMatch) conditions.set('If-Match', ifMatch);
+  if (!allowOverwrite) {
+    conditions.set('If-None-Match', '*');
+  } else if (ifNoneMatch) {
+    conditions.set('If-None-Match', ifNoneMatch);
+  }
+  return [...conditions.keys()].length > 0 ? conditions : undefined;
+}
+
+// 解析 ETag 列表，去掉弱校验前缀和引号
+function parseETagList(value: string): string[] {
+  return value
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, '').replace(/^"|"$/g, ''))
+    .filter(Boolean);
+}
+
+// 按 R2 onlyIf 的语义检查已有文件是否满足写入条件
+function matchesUploadConditions(
+  conditions: Headers | undefined,
+  existing: R2Object | null,
+): boolean {
+  if (!conditions) return true;
+
+  const ifMatch = conditions.get('If-Match');
+  if (ifMatch !== null) {
+    if (!existing) return false;
+    const tags = parseETagList(ifMatch);
+    if (!tags.includes('*') && !tags.includes(existing.etag)) return false;
+  }
+
+  const ifNoneMatch = conditions.get('If-None-Match');
+  if (ifNoneMatch !== null && existing) {
+    const tags = parseETagList(ifNoneMatch);
+    if (tags.includes('*') || tags.includes(existing.etag)) return false;
+  }
+
+  return true;
+}
+
+// 写入条件不满足的响应
+function createPreconditionFailedResponse(
+  key: string,
+  existing: R2Object | null,
+): Response {
+  return jsonResponse(
+    {
+      error: existing
+        ? `File already exists or has been modified: ${key}`
+        : `File does not exist: ${key}`,
+      code: 'PRECONDITION_FAILED',
+    },
+    412,
+  );
+}
+
+// 从分块列表头部取出指定字节数并合并
+function takeBytes(chunks: Uint8Array[], size: number): Uint8Array {
+  const result = new Uint8Array(size);
+  let filled = 0;
+  while (filled < size) {
+    const chunk = chunks[0];
+    const n = Math.min(size - filled, chunk.byteLength);
+    result.set(chunk.subarray(0, n), filled);
+    filled += n;
+    if (n === chunk.byteLength) {
+      chunks.shift();
+    } else {
+      chunks[0] = chunk.subarray(n);
+    }
+  }
+  return result;
+}
+
+// 将请求体流式写入 R2，流出错时（如超过大小限制）中止且不留下部分对象
+// 已知长度时直接写入；未知长度时按固定大小分片，通过 R2 分片上传写入，内存占用不超过一个分片
+async function streamUploadToR2(
+  env: Env,
+  key: string,
+  stream: ReadableStream<Uint8Array>,
+  knownLength: number | null,
+  options: R2PutOptions,
+): Promise<R2Object | null> {
+  if (knownLength !== null) {
+    const fixed = new FixedLengthStream(knownLength);
+    stream.pipeTo(fixed.writable).catch(() => {
+      // 错误会通过 put 抛出
+    });
+    return env.CDN_BUCKET.put(key, fixed.readable, options);
+  }
+
+  const reader = stream.getReader();
+  const pending: Uint8Array[] = [];
+  let pendingSize = 0;
+  let multipartUpload: R2MultipartUpload | null = null;
+  const parts: R2UploadedPart[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      pending.push(value);
+      pendingSize += value.byteLength;
+
+      while (pendingSize >= STREAM_UPLOAD_PART_SIZE) {
+        if (!multipartUpload) {
+          // 分片上传不支持 sha256 等校验选项，由调用方在流中校验
+          multipartUpload = await env.CDN_BUCKET.createMultipartUpload(key, {
+            httpMetadata: options.httpMetadata,
+            customMetadata: options.customMetadata,
+          });
+        }
+        const part = takeBytes(pending, STREAM_UPLOAD_PART_SIZE);
+        pendingSize -= STREAM_UPLOAD_PART_SIZE;
+        parts.push(await multipartUpload.uploadPart(parts.length + 1, part));
+      }
+    }
+
+    const rest = takeBytes(pending, pendingSize);
+
+    // 小文件：一次写入
+    if (!multipartUpload) {
+      return await env.CDN_BUCKET.put(key, rest, options);
+    }
+
+    if (rest.byteLength > 0) {
+      parts.push(await multipartUpload.uploadPart(parts.length + 1, rest));
+    }
+
+    // 分片上传不支持 onlyIf，完成前检查写入条件
+    if (
+      options.onlyIf instanceof Headers &&
+      !matchesUploadConditions(options.onlyIf, await env.CDN_BUCKET.head(key))
+    ) {
+      await multipartUpload.abort();
+      return null;
+    }
+    return await multipartUpload.complete(parts);
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    if (multipartUpload) {
+      await multipartUpload.abort().catch((abortError) => {
+        console.error('Failed to abort streamed upload:', abortError);
+      });
+    }
+    throw error;
+  }
+}
+
+// 在字节数组中查找子序列
+function indexOfBytes(
+  haystack: Uint8Array,
+  needle: Uint8Array,
+  from = 0,
+): number {
+  outer: for (let i = from; i <= haystack.byteLength - needle.byteLength; i++) {
+    for (let j = 0; j < needle.byteLength; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// 合并两个字节数组
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.byteLength === 0) return b;
+  const result = new Uint8Array(a.byteLength + b.byteLength);
+  result.set(a, 0);
+  result.set(b, a.byteLength);
+  return result;
+}
+
+// 流式解析 multipart/form-data，返回指定字段的内容流（不缓冲整个请求体）
+// 位于该字段之前的普通字段（非文件）一并返回
+async function extractFormDataFileStream(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  fieldName: string,
+): Promise<{
+  stream: ReadableStream<Uint8Array>;
+  filename?: string;
+  contentType?: string;
+  fields: Record<string, string>;
+} | null> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  // 第一个分隔符前可能没有 CRLF，统一在开头补一个
+  const delimiter = encoder.encode(`\r\n--${boundary}`);
+  const headerEnd = encoder.encode('\r\n\r\n');
+  const reader = body.getReader();
+  let buffer = encoder.encode('\r\n');
+  let finished = false;
+
+  const readMore = async (): Promise<boolean> => {
+    if (finished) return false;
+    const { done, value } = await reader.read();
+    if (done) {
+      finished = true;
+      return false;
+    }
+    buffer = concatBytes(buffer, value);
+    return true;
+  };
+
+  // 跳到下一个分隔符之后
+  const skipToDelimiter = async (): Promise<boolean> => {
+    while (true) {
+      const index = indexOfBytes(buffer, delimiter);
+      if (index !== -1) {
+        buffer = buffer.subarray(index + delimiter.byteLength);
+        return true;
+      }
+      // 保留可能跨块的分隔符前缀
+      buffer = buffer.subarray(
+        Math.max(buffer.byteLength - delimiter.byteLength + 1, 0),
+      );
+      if (!(await readMore())) return false;
+    }
+  };
+
+  // 读取普通字段的内容，直到下一个分隔符
+  const readField = async (): Promise<string | null> => {
+    while (true) {
+      const index = indexOfBytes(buffer, delimiter);
+      if (index !== -1) {
+        const value = decoder.decode(buffer.subarray(0, index));
+        buffer = buffer.subarray(index + delimiter.byteLength);
+        return value;
+      }
+      if (buffer.byteLength > MAX_FORM_FIELD_SIZE + delimiter.byteLength) {
+        reader.cancel().catch(() => {});
+        throw new Error('Multipart form field too large');
+      }
+      if (!(await readMore())) return null;
+    }
+  };
+
+  const fields: Record<string, string> = {};
+
+  if (!(await skipToDelimiter())) return null;
+
+  while (true) {
+    // 分隔符后是 "--" 表示结束，否则是 CRLF
+    while (buffer.byteLength < 2) {
+      if (!(await readMore())) return null;
+    }
+    if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+      reader.cancel().catch(() => {});
+      return null;
+    }
+
+    // 读取分段头部
+    let headerIndex = indexOfBytes(buffer, headerEnd);
+    while (headerIndex === -1) {
+      if (buffer.byteLength > MAX_FORM_PART_HEADER_SIZE) {
+        reader.cancel().catch(() => {});
+        throw new Error('Multipart part headers too large');
+      }
+      if (!(await readMore())) return null;
+      headerIndex = indexOfBytes(buffer, headerEnd);
+    }
+
+    const headerText = decoder.decode(buffer.subarray(0, headerIndex));
+    buffer = buffer.subarray(headerIndex + headerEnd.byteLength);
+
+    const partHeaders = new Map<string, string>();
+    for (const line of headerText.split('\r\n')) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        partHeaders.set(
+          line.slice(0, colon).trim().toLowerCase(),
+          line.slice(colon + 1).trim(),
+        );
+      }
+    }
+
+    const disposition = partHeaders.get('content-disposition') || '';
+    const name = disposition.match(/;\s*name="([^"]*)"/i)?.[1];
+
+    const filename = disposition.match(/;\s*filename="([^"]*)"/i)?.[1];
+
+    if (name !== fieldName) {
+      if (name !== undefined && filename === undefined) {
+        const value = await readField();
+        if (value === null) return null;
+        fields[name] = value;
+      } else if (!(await skipToDelimiter())) {
+        return null;
+      }
+      continue;
+    }
+
+    // 输出字段内容，直到遇到下一个分隔符
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (true) {
+          const index = indexOfBytes(buffer, delimiter);
+          if (index !== -1) {
+            if (index > 0) controller.enqueue(buffer.slice(0, index));
+            buffer = new Uint8Array(0);
+            reader.cancel().catch(() => {});
+            controller.close();
+            return;
+          }
+
+          // 保留可能是分隔符前缀的尾部，其余部分输出
+          const safeLength = buffer.byteLength - delimiter.byteLength + 1;
+          if (safeLength > 0) {
+            controller.enqueue(buffer.slice(0, safeLength));
+            buffer = buffer.subarray(safeLength);
+            return;
+          }
+
+          if (!(await readMore())) {
+            controller.error(new Error('Unexpected end of multipart body'));
+            return;
+          }
+        }
+      },
+      cancel() {
+        reader.cancel().catch(() => {});
+      },
+    });
+
+    return {
+      stream,
+      filename,
+      contentType: partHeaders.get('content-type'),
+      fields,
+    };
+  }
+}
+
+// 应用存储配额（STORAGE_QUOTAS 中的配置项），未配置的维度不限制
+interface StorageQuota {
+  maxBytes?: number;
+  maxObjects?: number;
+}
+
+// 应用存储用量
+interface StorageUsage {
+  bytes: number;
+  objects: number;
+  updatedAt?: string;
+  reconciledAt?: string; // 最近一次按 R2 实际内容校准的时间
+}
+
+// 获取应用的存储配额："*" 为未单独配置的应用的默认配额
+function getStorageQuota(
+  env: Env,
+  appName: string,
+): { quota?: StorageQuota; error?: string } {
+  if (!env.STORAGE_QUOTAS) return { quota: {} };
+
+  let quotas: { [app: string]: StorageQuota };
+  try {
+    quotas = JSON.parse(env.STORAGE_QUOTAS);
+  } catch (error) {
+    return { error: 'Invalid STORAGE_QUOTAS configuration' };
+  }
+
+  return {
+    quota:
+      (Object.prototype.hasOwnProperty.call(quotas, appName)
+        ? quotas[appName]
+        : quotas['*']) || {},
+  };
+}
+
+// 只有配置了配额或绑定了用量账本时才记录用量
+function isUsageTrackingEnabled(env: Env): boolean {
+  return Boolean(env.STORAGE_QUOTAS || env.USAGE_LEDGER);
+}
+
+// 预留用量：增加的维度超出配额时拒绝（覆盖为更小的文件等减少用量的操作始终允许）
+function applyUsageReservation(
+  usage: StorageUsage,
+  bytes: number,
+  objects: number,
+  quota: StorageQuota,
+): boolean {
+  if (
+    bytes > 0 &&
+    quota.maxBytes !== undefined &&
+    usage.bytes + bytes > quota.maxBytes
+  ) {
+    return false;
+  }
+  if (
+    objects > 0 &&
+    quota.maxObjects !== undefined &&
+    usage.objects + objects > quota.maxObjects
+  ) {
+    return false;
+  }
+
+  usage.bytes += bytes;
+  usage.objects += objects;
+  usage.updatedAt = new Date().toISOString();
+  return true;
+}
+
+// 用量存储（Durable Object 或本地内存）
+interface UsageStore {
+  get(appName: string): Promise<StorageUsage>;
+  reserve(
+    appName: string,
+    bytes: number,
+    objects: number,
+    quota: StorageQuota,
+  ): Promise<{ allowed: boolean; usage: StorageUsage }>;
+  adjust(appName: string, bytes: number, objects: number): Promise<void>;
+  reset(appName: string, bytes: number, objects: number): Promise<void>;
+}
+
+// 本地内存存储：未绑定 USAGE_LEDGER 时使用（本地开发和测试），仅在当前 isolate 内有效
+const memoryUsage = new Map<string, StorageUsage>();
+
+function getMemoryUsage(appName: string): StorageUsage {
+  let usage = memoryUsage.get(appName);
+  if (!usage) {
+    usage = { bytes: 0, objects: 0 };
+    memoryUsage.set(appName, usage);
+  }
+  return usage;
+}
+
+const memoryUsageStore: UsageStore = {
+  async get(appName) {
+    return { ...getMemoryUsage(appName) };
+  },
+  async reserve(appName, bytes, objects, quota) {
+    const usage = getMemoryUsage(appName);
+    const allowed = applyUsageReservation(usage, bytes, objects, quota);
+    return { allowed, usage: { ...usage } };
+  },
+  async adjust(appName, bytes, objects) {
+    applyUsageReservation(getMemoryUsage(appName), bytes, objects, {});
+  },
+  async reset(appName, bytes, objects) {
+    const now = new Date().toISOString();
+    memoryUsage.set(appName, {
+      bytes,
+      objects,
+      updatedAt: now,
+      reconciledAt: now,
+    });
+  },
+};
+
+function getUsageStore(env: Env): UsageStore {
+  if (!env.USAGE_LEDGER) return memoryUsageStore;
+
+  const namespace = env.USAGE_LEDGER;
+  // 每个应用一个 Durable Object 实例
+  const ledger = (appName: string) =>
+    namespace.get(namespace.idFromName(appName));
+  return {
+    get: (appName) => ledger(appName).getUsage(),
+    reserve: (appName, bytes, objects, quota) =>
+      ledger(appName).reserve(bytes, objects, quota),
+    adjust: (appName, bytes, objects) => ledger(appName).adjust(bytes, objects),
+    reset: (appName, bytes, objects) => ledger(appName).reset(bytes, objects),
+  };
+}
+
+// 应用存储用量账本：Durable Object 单线程执行，并发上传时配额检查与预留是原子的
+export class UsageLedger extends DurableObject<Env> {
+  private async load(): Promise<StorageUsage> {
+    return (
+      (await this.ctx.storage.get<StorageUsage>('usage')) || {
+        bytes: 0,
+        objects: 0,
+      }
+    );
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    return this.load();
+  }
+
+  async reserve(
+    bytes: number,
+    objects: number,
+    quota: StorageQuota,
+  ): Promise<{ allowed: boolean; usage: StorageUsage }> {
+    const usage = await this.load();
+    const allowed = applyUsageReservation(usage, bytes, objects, quota);
+    if (allowed) {
+      await this.ctx.storage.put('usage', usage);
+    }
+    return { allowed, usage };
+  }
+
+  async adjust(bytes: number, objects: number): Promise<void> {
+    const usage = await this.load();
+    applyUsageReservation(usage, bytes, objects, {});
+    await this.ctx.storage.put('usage', usage);
+  }
+
+  async reset(bytes: number, objects: number): Promise<void> {
+    const now = new Date().toISOString();
+    await this.ctx.storage.put('usage', {
+      bytes,
+      objects,
+      updatedAt: now,
+      reconciledAt: now,
+    });
+  }
+}
+
+// 上传前的配额预留
+interface StorageReservation {
+  appName: string;
+  incomingBytes: number; // 预留的新文件大小（未知长度时为 0）
+  bytes: number; // 预留的字节变化量（新文件大小 - 被覆盖文件大小）
+  objects: number; // 预留的对象数量变化量
+  remainingBytes: number; // 本次上传最多可以写入的字节数
+}
+
+// 写入前预留配额（覆盖已有文件时按大小差值计算），超出配额时返回 error
+async function reserveStorageQuota(
+  env: Env,
+  appName: string,
+  key: string,
+  incomingBytes: number | null,
+): Promise<{ reservation?: StorageReservation; response?: Response }> {
+  if (!isUsageTrackingEnabled(env)) {
+    return {
+      reservation: {
+        appName,
+        incomingBytes: 0,
+        bytes: 0,
+        objects: 0,
+        remainingBytes: Infinity,
+      },
+    };
+  }
+
+  const { quota, error } = getStorageQuota(env, appName);
+  if (!quota) {
+    return { response: jsonResponse({ error, code: 'CONFIG_ERROR' }, 500) };
+  }
+
+  const previous = await env.CDN_BUCKET.head(key);
+  const bytes = (incomingBytes ?? 0) - (previous?.size ?? 0);
+  const objects = previous ? 0 : 1;
+
+  const result = await getUsageStore(env).reserve(
+    appName,
+    bytes,
+    objects,
+    quota,
+  );
+  if (!result.allowed) {
+    return { response: createQuotaExceededResponse(quota, result.usage) };
+  }
+
+  return {
+    reservation: {
+      appName,
+      incomingBytes: incomingBytes ?? 0,
+      bytes,
+      objects,
+      remainingBytes:
+        quota.maxBytes === undefined
+          ? Infinity
+          : quota.maxBytes - result.usage.bytes + (incomingBytes ?? 0),
+    },
+  };
+}
+
+// 超出存储配额的响应
+function createQuotaExceededResponse(
+  quota: StorageQuota,
+  usage: StorageUsage,
+): Response {
+  return jsonResponse(
+    {
+      error: 'Storage quota exceeded',
+      code: 'QUOTA_EXCEEDED',
+      usage: { bytes: usage.bytes, objects: usage.objects },
+      quota: {
+        maxBytes: quota.maxBytes ?? null,
+        maxObjects: quota.maxObjects ?? null,
+      },
+    },
+    507,
+  );
+}
+
+// 写入结束后结算预留：成功时按实际写入大小修正，失败时（writtenBytes 为 null）释放预留
+async function settleStorageReservation(
+  env: Env,
+  reservation: StorageReservation,
+  writtenBytes: number | null,
+): Promise<void> {
+  if (!isUsageTrackingEnabled(env)) return;
+
+  const store = getUsageStore(env);
+  if (writtenBytes === null) {
+    if (reservation.bytes !== 0 || reservation.objects !== 0) {
+      await store.adjust(
+        reservation.appName,
+        -reservation.bytes,
+        -reservation.objects,
+      );
+    }
+  } else if (writtenBytes !== reservation.incomingBytes) {
+    await store.adjust(
+      reservation.appName,
+      writtenBytes - reservation.incomingBytes,
+      0,
+    );
+  }
+}
+
+// 记录删除的文件用量
+async function recordStorageDeletion(
+  env: Env,
+  appName: string,
+  bytes: number,
+  objects: number,
+): Promise<void> {
+  if (!isUsageTrackingEnabled(env) || objects === 0) return;
+  await getUsageStore(env).adjust(appName, -bytes, -objects);
+}
+
+// 重新统计应用在其路径根下的实际用量，修正账本的偏差
+async function reconcileStorageUsage(env: Env): Promise<void> {
+  if (!isUsageTrackingEnabled(env)) return;
+
+  const apps = new Set<string>();
+  for (const config of [
+    env.STORAGE_QUOTAS,
+    env.TOKEN_API_KEYS,
+    env.JWT_SECRETS,
+  ]) {
+    if (!config) continue;
+    try {
+      Object.keys(JSON.parse(config)).forEach((app) => apps.add(app));
+    } catch (error) {
+      console.error('Usage reconciliation config error:', error);
+    }
+  }
+  apps.delete('*');
+
+  const store = getUsageStore(env);
+  for (const appName of apps) {
+    const { policy } = getTokenPolicy(env, appName);
+    if (!policy) continue;
+
+    // 路径根可能相互包含，按对象 key 去重
+    const counted = new Set<string>();
+    let bytes = 0;
+    for (const root of policy.pathRoots) {
+      let cursor: string | undefined;
+      do {
+        const listed = await env.CDN_BUCKET.list({
+          prefix: root,
+          cursor,
+          limit: LIST_MAX_LIMIT,
+        });
+        for (const object of listed.objects) {
+          if (isReservedKey(object.key) || counted.has(object.key)) continue;
+          counted.add(object.key);
+          bytes += object.size;
+        }
+        cursor = listed.truncated ? listed.cursor : undefined;
+      } while (cursor);
+    }
+
+    await store.reset(appName, bytes, counted.size);
+  }
+}
+
+// 处理用量查询请求（GET /usage）
+async function handleUsageRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    // 与 /token 接口使用相同的认证方式，只能查询本应用的用量
+    const validation = await validateTokenAPIRequest(request, env);
+    if (!validation.valid || !validation.appName) {
+      return jsonResponse(
+        { error: validation.error || 'Unauthorized', code: 'UNAUTHORIZED' },
+        401,
+      );
+    }
+
+    const appName = validation.appName;
+    const { quota, error } = getStorageQuota(env, appName);
+    if (!quota) {
+      return jsonResponse({ error, code: 'CONFIG_ERROR' }, 500);
+    }
+
+    const usage = await getUsageStore(env).get(appName);
+
+    return jsonResponse(
+      {
+        success: true,
+        data: {
+          app: appName,
+          bytes: usage.bytes,
+          objects: usage.objects,
+          quota: {
+            maxBytes: quota.maxBytes ?? null,
+            maxObjects: quota.maxObjects ?? null,
+          },
+          tracking: isUsageTrackingEnabled(env),
+          updatedAt: usage.updatedAt || null,
+          reconciledAt: usage.reconciledAt || null,
+        },
+      },
+      200,
+    );
+  } catch (error) {
+    console.error('Usage error:', error);
+    return jsonResponse(
+      {
+        error: 'Failed to get usage',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'USAGE_ERROR',
+      },
+      500,
+    );
+  }
+}
+
+// 处理文件上传请求
+async function handleUpload(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    let key = url.pathname.slice(8); // 移除 "/upload/" 前缀
+
+    // 不带路径的 POST /upload 由 Token 的 keyTemplate 生成路径，路径权限在生成后校验
+    const generateKey = key === '';
+
+    // 验证 Token 之前按 IP 限流
+    const clientLimit = await checkClientRateLimit(request, env, 'upload');
+    if (clientLimit.response) return clientLimit.response;
+
+    // 验证上传请求安全性
+    const validation = generateKey
+      ? await validateTokenRequest(request, env, 'write')
+      : await validateUploadRequest(request, env, key);
+    if (!validation.valid) {
+      return new Response(
+        JSON.stringify({
+          error: validation.error,
+          code: 'UNAUTHORIZED',
+        }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    // 按应用和 Token 限流
+    const rateLimitResponse = await checkUploadRateLimit(
+      request,
+      env,
+      validation.tokenData,
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const keyTemplate: string | undefined = validation.tokenData.keyTemplate;
+    if (generateKey && !keyTemplate) {
+      return jsonResponse(
+        {
+          error:
+            'Missing file path. Use /upload/<key> or a token with keyTemplate',
+          code: 'INVALID_PATH',
+        },
+        400,
+      );
+    }
+
+    // 验证文件路径和扩展名
+    if (!generateKey) {
+      const keyError = validateUploadKey(key, validation.tokenData);
+      if (keyError) return keyError;
+
+      // 内容寻址模式按实际存储路径（<prefix>/<sha256>.<ext>）检查站点文件
+      const contentAddressed = validation.tokenData?.contentAddressed;
+      const hostingError = await validateHostingUploadKey(
+        env,
+        contentAddressed
+          ? getContentAddressedKey(contentAddressed.prefix, key, '0'.repeat(64))
+          : key,
+      );
+      if (hostingError) return hostingError;
+    }
+
+    // 获取文件大小限制（优先使用token中的限制）
+    let maxSize = parseInt(env.MAX_FILE_SIZE || '104857600'); // 默认100MB
+    if (validation.tokenData && validation.tokenData.maxFileSize) {
+      maxSize = Math.min(maxSize, validation.tokenData.maxFileSize);
+    }
+
+    // 检查文件大小限制
+    const contentLength = request.headers.get('Content-Length');
+    if (contentLength && parseInt(contentLength) > maxSize) {
+      return new Response(
+        JSON.stringify({
+          error: `File too large. Maximum size: ${maxSize} bytes`,
+          code: 'FILE_TOO_LARGE',
+        }),
+        {
+          status: 413,
+          headers: { 'Content-Type': 'application/json' },
+        },
+      );
+    }
+
+    // 读取文件数据：根据 Content-Type 判断提取方式（流式读取，不缓冲整个文件）
+    let fileStream: ReadableStream<Uint8Array>;
+    let knownLength: number | null = null;
+    let formUpload = false;
+    let filename = url.searchParams.get('filename') || undefined;
+    let formFields: Record<string, string> = {};
+    const requestContentType = request.headers.get('Content-Type') || '';
+
+    if (requestContentType.includes('multipart/form-data')) {
+      // multipart/form-data 表单上传，从 file 字段提取
+      const boundary = requestContentType.match(
+        /boundary=(?:"([^"]+)"|([^;]+))/i,
+      );
+      const file =
+        boundary && request.body
+          ? await extractFormDataFileStream(
+              request.body,
+              (boundary[1] || boundary[2]).trim(),
+              'file',
+            )
+          : null;
+      if (!file) {
+        return new Response(
+          JSON.stringify({
+            error: 'Missing "file" field in multipart form data',
+            code: 'MISSING_FILE_FIELD',
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          },
+        );
+      }
+      fileStream = file.stream;
+      filename = filename || file.filename;
+      formFields = file.fields;
+      formUpload = true;
+    } else {
+      // 直接二进制流上传
+      fileStream = request.body || new Response('').body!;
+      if (contentLength && request.body) {
+        knownLength = parseInt(contentLength);
+      } else if (!request.body) {
+        knownLength = 0;
+      }
+    }
+
+    // 客户端设置的 HTTP 元数据和自定义元数据；预压缩文件（<key>.gz）按原文件的类型和编码校验、存储
+    const precompressedSource = generateKey
+      ? null
+      : getPrecompressedSource(key);
+    const uploadMetadata = parseUploadMetadata(
+      request.headers,
+      formFields,
+      precompressedSource?.encoding,
+    );
+    if (uploadMetadata.error) {
+      return jsonResponse(
+        { error: uploadMetadata.error, code: 'INVALID_METADATA' },
+        400,
+      );
+    }
 
-    // 生成 Token Payload
-    const now = Math.floor(Date.now() / 1000);
-    const payload = {
-      exp: now + maxAge,
-      iat: now,
-      appName: appName,
-      allowedPaths: [customPath],
-      maxFileSize: maxSize,
-      allowedExtensions: allowedExtensions,
-      created: new Date().toISOString(),
+    // 由 Worker 生成预压缩文件（仅文本类型）
+    const precompress =
+      (formFields.precompress ?? request.headers.get('X-Upload-Precompress'))
+        ?.trim()
+        .toLowerCase() || null;
+    if (precompress && !PRECOMPRESS_ENCODINGS.includes(precompress)) {
+      return jsonResponse(
+        {
+          error: `Unsupported precompress encoding: ${precompress}. Supported: ${PRECOMPRESS_ENCODINGS.join(', ')}`,
+          code: 'INVALID_METADATA',
+        },
+        400,
+      );
+    }
+
+    const peeked = await peekStream(fileStream, CONTENT_SNIFF_SIZE);
+
+    // 声明了 Content-Encoding 的上传按解码后的文件头识别和校验类型
+    const contentEncoding = uploadMetadata.httpMetadata.contentEncoding;
+    const contentHead = await decodeContentHead(peeked.head, contentEncoding);
+
+    // 按模板生成路径：扩展名取自文件名或文件头，{sha256} 在计算哈希后展开
+    let templateVariables: Record<string, string> | undefined;
+    if (generateKey) {
+      const ext = resolveUploadExtension(
+        filename,
+        contentHead,
+        validation.tokenData.allowedExtensions,
+      );
+      if (!ext) {
+        return jsonResponse(
+          {
+            error:
+              'Cannot determine file extension. Provide a filename parameter',
+            code: 'INVALID_PATH',
+          },
+          400,
+        );
+      }
+      templateVariables = getKeyTemplateVariables(
+        validation.tokenData.appName,
+        validation.tokenData.sub,
+        ext,
+      );
+
+      // 以占位哈希展开后校验，生成的路径同样受 allowedPaths 和路径规则限制
+      const candidateKey = expandKeyTemplate(keyTemplate!, {
+        ...templateVariables,
+        sha256: '0'.repeat(64),
+      });
+      const keyError =
+        validateUploadKey(candidateKey, validation.tokenData) ||
+        (await validateHostingUploadKey(env, candidateKey));
+      if (keyError) return keyError;
+      if (!isPathAllowed(validation.tokenData.allowedPaths, candidateKey)) {
+        return jsonResponse(
+          {
+            error: `Path not allowed for token: ${candidateKey}`,
+            code: 'UNAUTHORIZED',
+          },
+          401,
+        );
+      }
+      key = expandKeyTemplate(keyTemplate!, templateVariables);
+    }
+
+    // 根据文件头校验内容与扩展名一致，使用校验后的 MIME 类型
+    const contentCheck = verifyFileContent(
+      precompressedSource?.key || key,
+      contentHead,
+      contentEncoding,
+    );
+    if (!contentCheck.valid) {
+      return createContentMismatchResponse(contentCheck.error);
+    }
+    const detectedContentType = contentCheck.contentType;
+
+    // 客户端提供的 SHA-256（可选）
+    const checksum = parseChecksumHeaders(request);
+    if (checksum.error) {
+      return jsonResponse(
+        { error: checksum.error, code: 'INVALID_CHECKSUM' },
+        400,
+      );
+    }
+    let expectedSha256 = checksum.sha256;
+    let bodyStream = peeked.stream;
+
+    // 未提供校验和的大文件无法在写入前确定 sha256
+    if (
+      !expectedSha256 &&
+      knownLength !== null &&
+      knownLength > INTEGRITY_BUFFER_LIMIT
+    ) {
+      return createChecksumRequiredResponse(
+        `Uploads larger than ${INTEGRITY_BUFFER_LIMIT} bytes`,
+      );
+    }
+
+    // 未提供校验和时，二进制流上传的小文件先读入内存计算哈希，写入前即可确定 sha256
+    // 表单上传不缓冲，写入过程中计算哈希，只在响应中返回
+    if (!expectedSha256 && !formUpload) {
+      const bufferLimit = Math.min(INTEGRITY_BUFFER_LIMIT, maxSize);
+      const buffered = await peekStream(bodyStream, bufferLimit + 1);
+      bodyStream = buffered.stream;
+      if (buffered.head.byteLength <= bufferLimit) {
+        expectedSha256 = bytesToHex(
+          await crypto.subtle.digest('SHA-256', buffered.head),
+        );
+        knownLength = buffered.head.byteLength;
+      }
+    }
+
+    // 内容寻址模式（存储到 <prefix>/<sha256>.<ext>）或包含 {sha256} 的路径模板：相同内容只存储一份
+    let targetKey = key;
+    const contentAddressed = validation.tokenData.contentAddressed;
+    const hashedKey =
+      !!contentAddressed ||
+      (templateVariables !== undefined && keyTemplate!.includes('{sha256}'));
+    if (hashedKey) {
+      // 预压缩文件的路径必须与原文件对应，不能按哈希存储
+      if (precompressedSource) {
+        return jsonResponse(
+          {
+            error:
+              'Precompressed files cannot be uploaded with content-addressed tokens',
+            code: 'INVALID_REQUEST',
+          },
+          400,
+        );
+      }
+      if (!expectedSha256) {
+        return createChecksumRequiredResponse(
+          formUpload
+            ? 'Form uploads stored by content hash'
+            : `Uploads stored by content hash larger than ${INTEGRITY_BUFFER_LIMIT} bytes`,
+        );
+      }
+      targetKey = contentAddressed
+        ? getContentAddressedKey(contentAddressed.prefix, key, expectedSha256)
+        : expandKeyTemplate(keyTemplate!, {
+            ...templateVariables,
+            sha256: expectedSha256,
+          });
+      if (!isPathAllowed(validation.tokenData.allowedPaths, targetKey)) {
+        return jsonResponse(
+          {
+            error: `Path not allowed for token: ${targetKey}`,
+            code: 'UNAUTHORIZED',
+          },
+          401,
+        );
+      }
+
+      const existing = await env.CDN_BUCKET.head(targetKey);
+      if (existing) {
+        // 已存在相同内容的文件：读取请求体校验哈希后跳过写入
+        const { stream, state } = createSizeLimitedStream(bodyStream, maxSize);
+        const digest = createDigestVerifyStream(stream, expectedSha256);
+        try {
+          await digest.stream.pipeTo(new WritableStream());
+        } catch (error) {
+          if (digest.state.mismatch) {
+            return createChecksumMismatchResponse();
+          }
+          if (state.exceeded) {
+            return jsonResponse(
+              {
+                error: `File too large. Maximum size: ${maxSize} bytes`,
+                code: 'FILE_TOO_LARGE',
+              },
+              413,
+            );
+          }
+          throw error;
+        }
+
+        return jsonResponse(
+          {
+            success: true,
+            message: 'File already exists',
+            data: {
+              key: targetKey,
+              size: existing.size,
+              contentType: existing.httpMetadata?.contentType,
+              sha256: expectedSha256,
+              deduplicated: true,
+              url: `${url.origin}/${targetKey}`,
+              timestamp: new Date().toISOString(),
+              app: validation.tokenData?.appName || 'unknown',
+            },
+          },
+          200,
+        );
+      }
+    }
+
+    // 写入条件：先检查一次以便尽早拒绝，写入时再由 R2 原子校验，避免并发上传互相覆盖
+    const conditions = hashedKey
+      ? undefined
+      : getUploadConditions(
+          request,
+          validation.tokenData.allowOverwrite !== false,
+        );
+    if (conditions) {
+      const existing = await env.CDN_BUCKET.head(targetKey);
+      if (!matchesUploadConditions(conditions, existing)) {
+        return createPreconditionFailedResponse(targetKey, existing);
+      }
+    }
+
+    // 检查存储配额，预留本次写入的用量
+    const quotaResult = await reserveStorageQuota(
+      env,
+      validation.tokenData.appName,
+      targetKey,
+      knownLength,
+    );
+    if (!quotaResult.reservation) {
+      return quotaResult.response!;
+    }
+    const reservation = quotaResult.reservation;
+
+    // 流式上传到R2，超过大小限制或剩余配额时立即中止
+    // 写入时计算 SHA-256；已知哈希时由 R2 再次校验，并记录在 customMetadata 中
+    // 未提供校验和的上传（表单上传、长度未知的大文件）超过 INTEGRITY_BUFFER_LIMIT 时同样中止
+    const checksumLimit = expectedSha256
+      ? maxSize
+      : Math.min(maxSize, INTEGRITY_BUFFER_LIMIT);
+    const limit = Math.min(checksumLimit, reservation.remainingBytes);
+    const { stream, state } = createSizeLimitedStream(bodyStream, limit);
+    const trailerCheck = createTrailerVerifyStream(stream, targetKey);
+    const digest = createDigestVerifyStream(
+      trailerCheck.stream,
+      expectedSha256,
+    );
+    let object: R2Object | null;
+    try {
+      object = await streamUploadToR2(
+        env,
+        targetKey,
+        digest.stream,
+        knownLength,
+        {
+          onlyIf: conditions,
+          httpMetadata: {
+            ...uploadMetadata.httpMetadata,
+            contentType: detectedContentType,
+          },
+          ...(expectedSha256 && { sha256: expectedSha256 }),
+          customMetadata: getUploadCustomMetadata(
+            validation.tokenData,
+            expectedSha256,
+            uploadMetadata.customMetadata,
+          ),
+        },
+      );
+    } catch (error) {
+      await settleStorageReservation(env, reservation, null);
+
+      // 文件尾签名或校验和不匹配：R2 写入被中止
+      if (trailerCheck.state.mismatch) {
+        return createContentMismatchResponse(trailerCheck.state.error);
+      }
+      if (digest.state.mismatch) {
+        return createChecksumMismatchResponse();
+      }
+
+      // 超出大小限制：R2 写入被中止，不会留下部分对象
+      if (state.exceeded && limit < checksumLimit) {
+        return jsonResponse(
+          { error: 'Storage quota exceeded', code: 'QUOTA_EXCEEDED' },
+          507,
+        );
+      }
+      if (state.exceeded && checksumLimit < maxSize) {
+        return createChecksumRequiredResponse(
+          `Uploads larger than ${INTEGRITY_BUFFER_LIMIT} bytes`,
+        );
+      }
+      if (state.exceeded) {
+        return new Response(
+          JSON.stringify({
+            error: `File too large. Maximum size: ${maxSize} bytes`,
+            code: 'FILE_TOO_LARGE',
+          }),
+          {
+            status: 413,
+            headers: { 'Content-Type': 'application/json' },
+          },
+        );
+      }
+      throw error;
+    }
+
+    // 写入期间文件被其他请求创建或修改
+    if (!object) {
+      await settleStorageReservation(env, reservation, null);
+      return createPreconditionFailedResponse(
+        targetKey,
+        await env.CDN_BUCKET.head(targetKey),
+      );
+    }
+
+    await settleStorageReservation(env, reservation, state.bytes);
+
+    // 生成预压缩文件，或删除之前生成的（已与新内容不一致）
+    const precompressed = await updatePrecompressedFile(
+      env,
+      validation.tokenData.appName,
+      object,
+      precompress,
+    ).catch((error) => {
+      console.error('Precompress error:', error);
+      return null;
+    });
+
+    // 覆盖已有文件时清除边缘缓存（If-None-Match: * 写入成功说明文件原本不存在）
+    // 变体和预压缩文件总是清除，原文件按协商结果缓存的条目需要更新
+    if (
+      conditions?.get('If-None-Match') !== '*' ||
+      isNegotiatedVariantKey(targetKey)
+    ) {
+      await purgeCachedFiles(env, url.origin, [targetKey]).catch((error) => {
+        console.error('Cache purge error:', error);
+      });
+    }
+
+    // 返回成功响应
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'File uploaded successfully',
+        data: {
+          key: targetKey,
+          size: state.bytes,
+          contentType: detectedContentType,
+          sha256: digest.state.sha256,
+          etag: object.httpEtag,
+          ...(precompress && { precompressed }),
+          url: `${url.origin}/${targetKey}`,
+          timestamp: new Date().toISOString(),
+          // 如果使用了临时token，返回相关信息
+          app: validation.tokenData?.appName || 'unknown',
+        },
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+  } catch (error) {
+    console.error('Upload error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Upload failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'UPLOAD_ERROR',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+}
+
+// 列表接口每页默认和最大数量
+const LIST_DEFAULT_LIMIT = 100;
+const LIST_MAX_LIMIT = 1000;
+
+// 处理文件列表请求（GET /list）
+async function handleListRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const prefix = url.searchParams.get('prefix') || '';
+    const delimiter = url.searchParams.get('delimiter') || undefined;
+    const cursor = url.searchParams.get('cursor') || undefined;
+    const limitParam = parseInt(url.searchParams.get('limit') || '', 10);
+    const limit = isNaN(limitParam)
+      ? LIST_DEFAULT_LIMIT
+      : Math.min(Math.max(limitParam, 1), LIST_MAX_LIMIT);
+
+    if (prefix.includes('..') || prefix.startsWith('/')) {
+      return jsonResponse(
+        { error: 'Invalid prefix', code: 'INVALID_PATH' },
+        400,
+      );
+    }
+
+    const validation = await validateTokenRequest(request, env, 'list');
+    if (!validation.valid) {
+      return jsonResponse(
+        { error: validation.error, code: 'UNAUTHORIZED' },
+        401,
+      );
+    }
+
+    // 前缀必须在 Token 的 allowedPaths 通配路径（<dir>/*）范围内
+    if (!isListPrefixAllowed(validation.tokenData.allowedPaths, prefix)) {
+      return jsonResponse(
+        {
+          error: `Path not allowed for token: ${prefix}`,
+          code: 'UNAUTHORIZED',
+        },
+        401,
+      );
+    }
+
+    const listed = await env.CDN_BUCKET.list({
+      prefix,
+      delimiter,
+      cursor,
+      limit,
+      include: ['httpMetadata', 'customMetadata'],
+    });
+
+    // 内部状态数据不出现在列表中
+    const objects = listed.objects
+      .filter((object) => !isReservedKey(object.key))
+      .map((object) => ({
+        key: object.key,
+        size: object.size,
+        etag: object.httpEtag,
+        uploaded: object.uploaded.toISOString(),
+        contentType:
+          object.httpMetadata?.contentType || getContentType(object.key),
+        sub: object.customMetadata?.sub,
+      }));
+    const prefixes = listed.delimitedPrefixes.filter(
+      (delimitedPrefix) => !isReservedKey(delimitedPrefix),
+    );
+
+    return jsonResponse(
+      {
+        success: true,
+        data: {
+          prefix,
+          objects,
+          prefixes,
+          truncated: listed.truncated,
+          cursor: listed.truncated ? listed.cursor : undefined,
+        },
+      },
+      200,
+    );
+  } catch (error) {
+    console.error('List error:', error);
+    return jsonResponse(
+      {
+        error: 'List failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'LIST_ERROR',
+      },
+      500,
+    );
+  }
+}
+
+// 批量删除的最大数量（R2 单次 delete 上限）
+const MAX_DELETE_KEYS = 1000;
+
+// 删除前并发查询文件大小的批次大小
+const DELETE_HEAD_BATCH_SIZE = 50;
+
+// 查找 Worker 为这些文件生成的预压缩文件
+async function getGeneratedPrecompressedKeys(
+  env: Env,
+  keys: string[],
+): Promise<string[]> {
+  const suffixes = PRECOMPRESSED_ENCODINGS.filter(({ encoding }) =>
+    PRECOMPRESS_ENCODINGS.includes(encoding),
+  ).map(({ suffix }) => suffix);
+  const candidates = keys
+    .filter((key) => isCompressible(key))
+    .flatMap((key) => suffixes.map((suffix) => `${key}${suffix}`));
+
+  const generated: string[] = [];
+  for (let i = 0; i < candidates.length; i += DELETE_HEAD_BATCH_SIZE) {
+    const objects = await Promise.all(
+      candidates
+        .slice(i, i + DELETE_HEAD_BATCH_SIZE)
+        .map((key) => env.CDN_BUCKET.head(key)),
+    );
+    for (const object of objects) {
+      if (object?.customMetadata?.[PRECOMPRESSED_SOURCE_METADATA]) {
+        generated.push(object.key);
+      }
+    }
+  }
+  return generated;
+}
+
+// 处理文件删除请求（DELETE /files/<key> 或 DELETE /files 批量删除）
+async function handleDeleteRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+
+    const validation = await validateTokenRequest(
+      request,
+      env,
+      'delete',
+      url.pathname.startsWith('/files/') ? url.pathname.slice(7) : undefined,
+    );
+    if (!validation.valid) {
+      return jsonResponse(
+        { error: validation.error, code: 'UNAUTHORIZED' },
+        401,
+      );
+    }
+
+    // 单个删除使用路径中的 key，批量删除从请求体读取 keys
+    let keys: string[];
+    if (url.pathname.startsWith('/files/')) {
+      keys = [url.pathname.slice(7)]; // 移除 "/files/" 前缀
+    } else {
+      const body = (await request.json()) as { keys?: unknown };
+      if (
+        !Array.isArray(body.keys) ||
+        body.keys.length === 0 ||
+        body.keys.some((key) => typeof key !== 'string')
+      ) {
+        return jsonResponse(
+          { error: 'keys must be a non-empty array', code: 'INVALID_REQUEST' },
+          400,
+        );
+      }
+      keys = body.keys;
+    }
+
+    if (keys.length > MAX_DELETE_KEYS) {
+      return jsonResponse(
+        {
+          error: `Too many keys. Maximum: ${MAX_DELETE_KEYS}`,
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
+    }
+
+    for (const key of keys) {
+      if (
+        !key ||
+        key.includes('..') ||
+        key.includes('//') ||
+        key.startsWith('/') ||
+        isReservedKey(key)
+      ) {
+        return jsonResponse(
+          { error: `Invalid file path: ${key}`, code: 'INVALID_PATH' },
+          400,
+        );
+      }
+
+      if (!isPathAllowed(validation.tokenData.allowedPaths, key)) {
+        return jsonResponse(
+          { error: `Path not allowed for token: ${key}`, code: 'UNAUTHORIZED' },
+          401,
+        );
+      }
+    }
+
+    // Worker 生成的预压缩文件随原文件一起删除
+    const precompressedKeys = await getGeneratedPrecompressedKeys(env, keys);
+    const deleteKeys = [...keys, ...precompressedKeys];
+
+    // 记录被删除文件的大小，用于更新存储用量
+    let deletedBytes = 0;
+    let deletedObjects = 0;
+    if (isUsageTrackingEnabled(env)) {
+      for (let i = 0; i < deleteKeys.length; i += DELETE_HEAD_BATCH_SIZE) {
+        const objects = await Promise.all(
+          deleteKeys
+            .slice(i, i + DELETE_HEAD_BATCH_SIZE)
+            .map((key) => env.CDN_BUCKET.head(key)),
+        );
+        for (const object of objects) {
+          if (!object) continue;
+          deletedBytes += object.size;
+          deletedObjects++;
+        }
+      }
+    }
+
+    await env.CDN_BUCKET.delete(keys);
+    if (precompressedKeys.length > 0) {
+      await env.CDN_BUCKET.delete(precompressedKeys);
+    }
+    await recordStorageDeletion(
+      env,
+      validation.tokenData.appName,
+      deletedBytes,
+      deletedObjects,
+    );
+
+    // 清除边缘缓存，避免继续提供已删除的内容
+    await purgeCachedFiles(env, url.origin, deleteKeys).catch((error) => {
+      console.error('Cache purge error:', error);
+    });
+
+    return jsonResponse(
+      {
+        success: true,
+        message: 'Files deleted successfully',
+        data: {
+          deleted: keys,
+          timestamp: new Date().toISOString(),
+          app: validation.tokenData?.appName || 'unknown',
+        },
+      },
+      200,
+    );
+  } catch (error) {
+    console.error('Delete error:', error);
+    return jsonResponse(
+      {
+        error: 'Delete failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'DELETE_ERROR',
+      },
+      500,
+    );
+  }
+}
+
+// 单次清除缓存请求的最大文件数（包括按前缀列出的文件）
+const MAX_PURGE_KEYS = 1000;
+
+// 单次清除缓存请求的最大前缀数
+const MAX_PURGE_PREFIXES = 30;
+
+// 验证管理接口请求：Authorization: Bearer <ADMIN_API_KEY>
+function validateAdminRequest(
+  request: Request,
+  env: Env,
+): { valid: boolean; error?: string } {
+  if (!env.ADMIN_API_KEY) {
+    return { valid: false, error: 'Admin API is not configured' };
+  }
+
+  const authHeader = request.headers.get('Authorization') || '';
+  if (
+    !authHeader.startsWith('Bearer ') ||
+    !timingSafeEqualString(authHeader.substring(7), env.ADMIN_API_KEY)
+  ) {
+    return { valid: false, error: 'Invalid admin API key' };
+  }
+
+  return { valid: true };
+}
+
+// 处理清除缓存请求（POST /purge），按文件或前缀清除边缘缓存，不修改存储的文件
+async function handlePurgeRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+
+    const validation = validateAdminRequest(request, env);
+    if (!validation.valid) {
+      return jsonResponse(
+        { error: validation.error, code: 'UNAUTHORIZED' },
+        401,
+      );
+    }
+
+    const body = (await request.json()) as {
+      keys?: unknown;
+      prefixes?: unknown;
     };
+    const isPathList = (value: unknown): value is string[] =>
+      Array.isArray(value) &&
+      value.every(
+        (item) =>
+          typeof item === 'string' &&
+          item !== '' &&
+          !item.includes('..') &&
+          !item.startsWith('/'),
+      );
+    const keys = body.keys === undefined ? [] : body.keys;
+    const prefixes = body.prefixes === undefined ? [] : body.prefixes;
+    if (
+      !isPathList(keys) ||
+      !isPathList(prefixes) ||
+      keys.length + prefixes.length === 0
+    ) {
+      return jsonResponse(
+        {
+          error: 'keys or prefixes must be a non-empty array of paths',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
+    }
+    if (keys.length > MAX_PURGE_KEYS || prefixes.length > MAX_PURGE_PREFIXES) {
+      return jsonResponse(
+        {
+          error: `Too many paths. Maximum: ${MAX_PURGE_KEYS} keys, ${MAX_PURGE_PREFIXES} prefixes`,
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
+    }
 
-    // 生成 JWT
-    const token = await generateJWT(payload, appSecret);
+    // Cache API 无法按前缀清除，列出前缀下的文件逐个清除
+    const purgeKeys = new Set(keys);
+    let truncated = false;
+    for (const prefix of prefixes) {
+      let cursor: string | undefined;
+      do {
+        const listed = await env.CDN_BUCKET.list({ prefix, cursor });
+        for (const object of listed.objects) {
+          if (isReservedKey(object.key)) continue;
+          if (purgeKeys.size >= MAX_PURGE_KEYS) {
+            truncated = true;
+            break;
+          }
+          purgeKeys.add(object.key);
+        }
+        cursor = listed.truncated && !truncated ? listed.cursor : undefined;
+      } while (cursor);
+    }
 
-    return new Response(
-      JSON.stringify({
+    await purgeCachedFiles(env, url.origin, [...purgeKeys]);
+    const global = await purgeZoneCache(env, {
+      prefixes: prefixes.map((prefix) => `${url.host}/${prefix}`),
+    });
+
+    return jsonResponse(
+      {
         success: true,
+        message: 'Cache purged successfully',
         data: {
-          token: token,
-          expiresIn: maxAge,
-          maxFileSize: maxSize,
-          allowedExtensions: allowedExtensions,
-          allowedPaths: [customPath],
-        },
-      }),
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
+          purged: [...purgeKeys],
+          prefixes,
+          // 前缀下的文件超过上限时，只清除了部分文件的本地缓存
+          truncated,
+          global,
+          timestamp: new Date().toISOString(),
         },
       },
+      200,
     );
   } catch (error) {
-    console.error('Token generation error:', error);
-    return new Response(
-      JSON.stringify({
-        error: 'Token generation failed',
-        message: error instanceof Error ? error.message : 'Unknown error',
-        code: 'TOKEN_ERROR',
-      }),
+    console.error('Purge error:', error);
+    return jsonResponse(
       {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
+        error: 'Purge failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'PURGE_ERROR',
       },
+      500,
     );
   }
 }
 
-// JWT解密函数（使用Web Crypto API）
-async function parseJWTToken(
-  token: string,
-  secrets: { [key: string]: string },
-): Promise<{ valid: boolean; payload?: any; error?: string }> {
-  // 输入验证
-  if (!token || typeof token !== 'string') {
-    return { valid: false, error: 'Invalid token format' };
-  }
+// 分片上传状态存储前缀（保留路径，禁止直接上传和访问）
+const MULTIPART_STATE_PREFIX = '.multipart/';
+
+// 分片合并时的临时文件前缀
+const MULTIPART_OBJECTS_PREFIX = `${MULTIPART_STATE_PREFIX}objects/`;
+
+// R2 分片编号上限
+const MAX_MULTIPART_PARTS = 10000;
+
+// 分片上传会话的保留时间：R2 默认 7 天后中止未完成的分片上传，之后会话无法继续
+const MULTIPART_SESSION_TTL = 7 * 24 * 3600 * 1000;
+
+// 合并临时文件只在完成请求期间存在，超过该时间说明完成请求中途失败
+const MULTIPART_OBJECT_TTL = 24 * 3600 * 1000;
+
+// 分片上传会话（创建时写入 R2，后续操作据此校验归属和限制）
+interface MultipartSession {
+  key: string;
+  uploadKey: string; // 分片合并到的临时路径，校验通过后再写入 key
+  uploadId: string;
+  appName: string;
+  maxFileSize: number;
+  allowedExtensions?: string[];
+  contentType: string;
+  contentEncoding?: string;
+  allowOverwrite?: boolean;
+  sub?: string;
+  created: string;
+}
 
-  if (!secrets || typeof secrets !== 'object') {
-    return { valid: false, error: 'Invalid secrets configuration' };
-  }
+// 已上传分片记录
+interface MultipartPartRecord {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
 
-  try {
-    const parts = token.split('.');
+function getMultipartStatePrefix(uploadId: string): string {
+  return `${MULTIPART_STATE_PREFIX}${encodeURIComponent(uploadId)}/`;
+}
 
-    // 必须是JWT格式（header.payload.signature）
-    if (parts.length !== 3) {
-      return { valid: false, error: 'Token must be in JWT format' };
+// 读取分片上传会话
+async function loadMultipartSession(
+  env: Env,
+  uploadId: string,
+): Promise<MultipartSession | null> {
+  const object = await env.CDN_BUCKET.get(
+    `${getMultipartStatePrefix(uploadId)}session`,
+  );
+  if (!object) return null;
+  return object.json<MultipartSession>();
+}
+
+// 列出已上传的分片（R2 绑定不提供 listParts，每个分片单独记录一个对象）
+async function listMultipartParts(
+  env: Env,
+  uploadId: string,
+): Promise<MultipartPartRecord[]> {
+  const prefix = `${getMultipartStatePrefix(uploadId)}parts/`;
+  const parts: MultipartPartRecord[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await env.CDN_BUCKET.list({
+      prefix,
+      cursor,
+      include: ['customMetadata'],
+    });
+    for (const object of listed.objects) {
+      parts.push({
+        partNumber: parseInt(object.key.slice(prefix.length), 10),
+        etag: object.customMetadata?.etag || '',
+        size: parseInt(object.customMetadata?.size || '0', 10),
+      });
     }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
 
-    // 安全的Base64解码函数
-    const safeBase64Decode = (str: string): any => {
-      try {
-        // 补齐padding
-        const padded = str + '='.repeat((4 - (str.length % 4)) % 4);
-        return JSON.parse(atob(padded));
-      } catch (error) {
-        throw new Error('Invalid Base64 encoding');
-      }
-    };
+  return parts.sort((a, b) => a.partNumber - b.partNumber);
+}
 
-    // 解析Payload获取appName
-    const payload = safeBase64Decode(parts[1]);
+// 删除分片上传的所有状态记录
+async function deleteMultipartState(env: Env, uploadId: string): Promise<void> {
+  const prefix = getMultipartStatePrefix(uploadId);
+  while (true) {
+    const listed = await env.CDN_BUCKET.list({ prefix });
+    if (listed.objects.length === 0) break;
+    await env.CDN_BUCKET.delete(listed.objects.map((object) => object.key));
+  }
+}
 
-    // 验证应用名称
-    if (!payload.appName || typeof payload.appName !== 'string') {
-      return { valid: false, error: 'JWT payload must contain valid appName' };
-    }
+// 清理遗留的分片上传（定时任务）：中止超过保留时间的会话并删除其状态记录，删除中途失败留下的合并临时文件
+async function cleanupMultipartState(env: Env): Promise<void> {
+  const now = Date.now();
+  let cursor: string | undefined;
+  do {
+    const listed = await env.CDN_BUCKET.list({
+      prefix: MULTIPART_STATE_PREFIX,
+      cursor,
+    });
+    for (const object of listed.objects) {
+      const age = now - object.uploaded.getTime();
+      if (object.key.startsWith(MULTIPART_OBJECTS_PREFIX)) {
+        if (age > MULTIPART_OBJECT_TTL) {
+          await env.CDN_BUCKET.delete(object.key);
+        }
+        continue;
+      }
+      if (!object.key.endsWith('/session') || age <= MULTIPART_SESSION_TTL) {
+        continue;
+      }
 
-    if (!secrets[payload.appName]) {
-      return {
-        valid: false,
-        error: `No JWT secret configured for app: ${payload.appName}`,
-      };
+      const uploadId = decodeURIComponent(
+        object.key.slice(MULTIPART_STATE_PREFIX.length, -'/session'.length),
+      );
+      const session = await loadMultipartSession(env, uploadId);
+      if (session) {
+        await env.CDN_BUCKET.resumeMultipartUpload(session.uploadKey, uploadId)
+          .abort()
+          .catch(() => {
+            // R2 已自动中止
+          });
+      }
+      await deleteMultipartState(env, uploadId);
     }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+}
 
-    const appSecret = secrets[payload.appName];
-    if (!appSecret || typeof appSecret !== 'string') {
-      return {
-        valid: false,
-        error: `Invalid secret configured for app: ${payload.appName}`,
-      };
+// 处理分片上传请求（/upload/<key>?action=mpu-*）
+async function handleMultipartUpload(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const key = url.pathname.slice(8); // 移除 "/upload/" 前缀
+    const action = url.searchParams.get('action');
+
+    // 验证 Token 之前按 IP 限流
+    const clientLimit = await checkClientRateLimit(request, env, 'upload');
+    if (clientLimit.response) return clientLimit.response;
+
+    // 与普通上传使用同一个 JWT 验证
+    const validation = await validateUploadRequest(request, env, key);
+    if (!validation.valid) {
+      return jsonResponse(
+        { error: validation.error, code: 'UNAUTHORIZED' },
+        401,
+      );
     }
 
-    // 验证过期时间
-    const now = Math.floor(Date.now() / 1000);
-    if (payload.exp && typeof payload.exp === 'number') {
-      if (payload.exp < now) {
-        return { valid: false, error: 'Token expired' };
-      }
-      // 可选：检查过期时间是否合理（不超过1年）
-      const maxExp = now + 365 * 24 * 60 * 60;
-      if (payload.exp > maxExp) {
-        return { valid: false, error: 'Token expiration too far in future' };
-      }
-    } else {
-      return {
-        valid: false,
-        error: 'JWT payload must contain exp (expiration time)',
-      };
+    const rateLimitResponse = await checkUploadRateLimit(
+      request,
+      env,
+      validation.tokenData,
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    // 验证文件路径
+    const pathValidation = validateFilePath(key);
+    if (!pathValidation.valid) {
+      return jsonResponse(
+        { error: pathValidation.error, code: 'INVALID_PATH' },
+        400,
+      );
     }
 
-    // 解析header
-    const header = safeBase64Decode(parts[0]);
+    const tokenData = validation.tokenData;
 
-    // 验证JWT格式
-    if (header.typ !== 'JWT' || header.alg !== 'HS256') {
-      return {
-        valid: false,
-        error: 'Invalid JWT format or algorithm (only HS256 supported)',
-      };
+    // 内容寻址需要在写入前确定哈希，分片上传无法满足
+    if (tokenData.contentAddressed) {
+      return jsonResponse(
+        {
+          error:
+            'Multipart upload is not supported for content-addressed tokens',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      );
     }
 
-    // 使用Web Crypto API进行HMAC验证
-    const keyData = new TextEncoder().encode(appSecret);
-    const data = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    // 获取文件大小限制（优先使用token中的限制）
+    let maxSize = parseInt(env.MAX_FILE_SIZE || '104857600'); // 默认100MB
+    if (tokenData && tokenData.maxFileSize) {
+      maxSize = Math.min(maxSize, tokenData.maxFileSize);
+    }
 
-    const key = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['verify'],
-    );
+    if (action === 'mpu-create' && request.method === 'POST') {
+      return createMultipartUpload(request, env, url, key, tokenData, maxSize);
+    }
 
-    // 安全的Base64解码签名
-    let signatureArray: Uint8Array;
-    try {
-      const signature = parts[2].replace(/-/g, '+').replace(/_/g, '/');
-      const padded = signature + '='.repeat((4 - (signature.length % 4)) % 4);
-      const binaryString = atob(padded);
-      signatureArray = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        signatureArray[i] = binaryString.charCodeAt(i);
-      }
-    } catch (error) {
-      return { valid: false, error: 'Invalid signature encoding' };
+    // 其余操作都需要 uploadId
+    const uploadId = url.searchParams.get('uploadId');
+    if (!uploadId) {
+      return jsonResponse(
+        { error: 'Missing uploadId parameter', code: 'MISSING_UPLOAD_ID' },
+        400,
+      );
     }
 
-    const isValid = await crypto.subtle.verify(
-      'HMAC',
-      key,
-      signatureArray,
-      data,
-    );
+    // 会话必须属于同一个文件和同一个应用
+    const session = await loadMultipartSession(env, uploadId);
+    if (
+      !session ||
+      session.key !== key ||
+      session.appName !== tokenData?.appName ||
+      session.sub !== tokenData?.sub
+    ) {
+      return jsonResponse(
+        { error: 'Multipart upload not found', code: 'NO_SUCH_UPLOAD' },
+        404,
+      );
+    }
+
+    // 会话创建时的限制与当前 Token 的限制取较严格者
+    const limit = Math.min(maxSize, session.maxFileSize);
 
-    if (!isValid) {
-      return { valid: false, error: 'Invalid JWT signature' };
+    if (action === 'mpu-uploadpart' && request.method === 'PUT') {
+      return uploadMultipartPart(request, env, url, session, limit);
+    }
+    if (action === 'mpu-complete' && request.method === 'POST') {
+      return completeMultipartUpload(request, env, url, session, limit);
+    }
+    if (action === 'mpu-abort' && request.method === 'DELETE') {
+      await env.CDN_BUCKET.resumeMultipartUpload(
+        session.uploadKey,
+        uploadId,
+      ).abort();
+      await deleteMultipartState(env, uploadId);
+      return jsonResponse(
+        {
+          success: true,
+          message: 'Multipart upload aborted',
+          data: { key, uploadId },
+        },
+        200,
+      );
+    }
+    if (action === 'mpu-listparts' && request.method === 'GET') {
+      const parts = await listMultipartParts(env, uploadId);
+      return jsonResponse(
+        {
+          success: true,
+          data: {
+            key,
+            uploadId,
+            parts,
+            uploadedSize: parts.reduce((sum, part) => sum + part.size, 0),
+            maxFileSize: limit,
+          },
+        },
+        200,
+      );
     }
 
-    return { valid: true, payload };
+    return jsonResponse(
+      {
+        error: `Unsupported multipart action: ${request.method} ${action}`,
+        code: 'INVALID_ACTION',
+      },
+      400,
+    );
   } catch (error) {
-    console.error('JWT parsing error:', error);
-    return { valid: false, error: 'Failed to parse JWT token' };
+    console.error('Multipart upload error:', error);
+    return jsonResponse(
+      {
+        error: 'Multipart upload failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'UPLOAD_ERROR',
+      },
+      500,
+    );
   }
 }
 
-// 验证上传请求的安全性（仅支持JWT Token）
-async function validateUploadRequest(
+// 创建分片上传
+async function createMultipartUpload(
   request: Request,
   env: Env,
+  url: URL,
   key: string,
-): Promise<{ valid: boolean; error?: string; tokenData?: any }> {
-  // 验证请求来源（如果配置了允许的来源）
-  if (env.UPLOAD_ALLOWED_ORIGINS) {
-    const origin = request.headers.get('Origin');
-    const referer = request.headers.get('Referer');
-
-    if (!origin && !referer) {
-      return { valid: false, error: 'Origin verification failed' };
+  tokenData: any,
+  maxSize: number,
+): Promise<Response> {
+  // 预压缩文件（<key>.gz）按原文件的类型和编码存储
+  const precompressedSource = getPrecompressedSource(key);
+  const contentKey = precompressedSource?.key || key;
+
+  // 验证文件扩展名（如果有token限制）
+  if (tokenData && tokenData.allowedExtensions) {
+    const fileExt = contentKey
+      .substring(contentKey.lastIndexOf('.'))
+      .toLowerCase();
+    if (!tokenData.allowedExtensions.includes(fileExt)) {
+      return jsonResponse(
+        {
+          error: `File extension not allowed: ${fileExt}. Allowed: ${tokenData.allowedExtensions.join(
+            ', ',
+          )}`,
+          code: 'EXTENSION_NOT_ALLOWED',
+        },
+        400,
+      );
     }
+  }
 
-    const allowed = env.UPLOAD_ALLOWED_ORIGINS.split(',').map((o) => o.trim());
-    const isAllowed =
-      (origin && allowed.some((o) => origin.includes(o))) ||
-      (referer && allowed.some((o) => referer.includes(o)));
+  const hostingError = await validateHostingUploadKey(env, key);
+  if (hostingError) return hostingError;
 
-    if (!isAllowed) {
-      return { valid: false, error: 'Origin not allowed for uploads' };
+  // 分片上传无法原子校验写入条件，创建和完成时各检查一次
+  const allowOverwrite = tokenData?.allowOverwrite !== false;
+  const conditions = getUploadConditions(request, allowOverwrite);
+  if (conditions) {
+    const existing = await env.CDN_BUCKET.head(key);
+    if (!matchesUploadConditions(conditions, existing)) {
+      return createPreconditionFailedResponse(key, existing);
     }
   }
 
-  // 检查临时token
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return { valid: false, error: 'Missing or invalid authorization header' };
+  const uploadMetadata = parseUploadMetadata(
+    request.headers,
+    {},
+    precompressedSource?.encoding,
+  );
+  if (uploadMetadata.error) {
+    return jsonResponse(
+      { error: uploadMetadata.error, code: 'INVALID_METADATA' },
+      400,
+    );
   }
 
-  const token = authHeader.substring(7);
+  // 分片先合并到保留前缀下的临时路径，完成时校验通过才写入目标路径
+  const contentType = getContentType(contentKey);
+  const uploadKey = `${MULTIPART_OBJECTS_PREFIX}${crypto.randomUUID()}`;
+  const multipartUpload = await env.CDN_BUCKET.createMultipartUpload(
+    uploadKey,
+    {
+      httpMetadata: { ...uploadMetadata.httpMetadata, contentType },
+      customMetadata: getUploadCustomMetadata(
+        tokenData,
+        undefined,
+        uploadMetadata.customMetadata,
+      ),
+    },
+  );
 
-  // 解析多应用JWT密钥配置（必须配置）
-  let jwtSecrets: { [key: string]: string };
-  if (env.JWT_SECRETS) {
-    try {
-      jwtSecrets = JSON.parse(env.JWT_SECRETS);
-    } catch (error) {
-      console.error('Failed to parse JWT_SECRETS:', error);
-      return { valid: false, error: 'Invalid JWT_SECRETS configuration' };
-    }
-  } else {
-    return { valid: false, error: 'JWT_SECRETS must be configured' };
+  const session: MultipartSession = {
+    key,
+    uploadKey,
+    uploadId: multipartUpload.uploadId,
+    appName: tokenData?.appName || 'unknown',
+    maxFileSize: maxSize,
+    allowedExtensions: tokenData?.allowedExtensions,
+    contentType,
+    contentEncoding: uploadMetadata.httpMetadata.contentEncoding,
+    allowOverwrite,
+    sub: tokenData?.sub,
+    created: new Date().toISOString(),
+  };
+
+  await env.CDN_BUCKET.put(
+    `${getMultipartStatePrefix(session.uploadId)}session`,
+    JSON.stringify(session),
+    { httpMetadata: { contentType: 'application/json' } },
+  );
+
+  return jsonResponse(
+    {
+      success: true,
+      message: 'Multipart upload created',
+      data: {
+        key,
+        uploadId: session.uploadId,
+        contentType,
+        maxFileSize: maxSize,
+        url: `${url.origin}/${key}`,
+      },
+    },
+    200,
+  );
+}
+
+// 上传单个分片
+async function uploadMultipartPart(
+  request: Request,
+  env: Env,
+  url: URL,
+  session: MultipartSession,
+  limit: number,
+): Promise<Response> {
+  const partNumber = parseInt(url.searchParams.get('partNumber') || '', 10);
+  if (
+    !Number.isInteger(partNumber) ||
+    partNumber < 1 ||
+    partNumber > MAX_MULTIPART_PARTS
+  ) {
+    return jsonResponse(
+      {
+        error: `partNumber must be an integer between 1 and ${MAX_MULTIPART_PARTS}`,
+        code: 'INVALID_PART_NUMBER',
+      },
+      400,
+    );
   }
 
-  // 验证JWT Token（必须格式）
-  const tokenResult = await parseJWTToken(token, jwtSecrets);
-  if (!tokenResult.valid) {
-    return { valid: false, error: tokenResult.error || 'Invalid JWT token' };
+  // 分片必须声明长度，才能在写入前检查总大小
+  const contentLength = parseInt(request.headers.get('Content-Length') || '');
+  if (isNaN(contentLength) || !request.body) {
+    return jsonResponse(
+      { error: 'Content-Length is required', code: 'LENGTH_REQUIRED' },
+      411,
+    );
   }
 
-  const tokenData = tokenResult.payload;
-  const now = Math.floor(Date.now() / 1000);
+  // 检查所有分片的总大小（同一分片重新上传时替换原记录）
+  const parts = await listMultipartParts(env, session.uploadId);
+  const uploadedSize = parts
+    .filter((part) => part.partNumber !== partNumber)
+    .reduce((sum, part) => sum + part.size, 0);
+  if (uploadedSize + contentLength > limit) {
+    return jsonResponse(
+      {
+        error: `File too large. Maximum size: ${limit} bytes`,
+        code: 'FILE_TOO_LARGE',
+      },
+      413,
+    );
+  }
 
-  // 检查过期时间
-  if (tokenData.exp && tokenData.exp < now) {
-    return { valid: false, error: 'Token expired' };
+  // 第一个分片包含文件头，提前校验内容与扩展名一致（完成时还会校验合并后的文件）
+  let body: ReadableStream = request.body;
+  if (partNumber === 1) {
+    const peeked = await peekStream(request.body, CONTENT_SNIFF_SIZE);
+    const contentCheck = verifyFileContent(
+      getPrecompressedSource(session.key)?.key || session.key,
+      await decodeContentHead(peeked.head, session.contentEncoding),
+      session.contentEncoding,
+    );
+    if (!contentCheck.valid) {
+      return createContentMismatchResponse(contentCheck.error);
+    }
+    const fixed = new FixedLengthStream(contentLength);
+    peeked.stream.pipeTo(fixed.writable).catch(() => {
+      // 错误会通过 uploadPart 抛出
+    });
+    body = fixed.readable;
   }
 
-  // 验证路径权限
-  if (tokenData.allowedPaths && !tokenData.allowedPaths.includes('*')) {
-    const pathAllowed = tokenData.allowedPaths.some((pattern: string) => {
-      if (pattern === '*') return true;
-      if (pattern.endsWith('/*')) {
-        return key.startsWith(pattern.slice(0, -1));
+  const multipartUpload = env.CDN_BUCKET.resumeMultipartUpload(
+    session.uploadKey,
+    session.uploadId,
+  );
+  const uploadedPart = await multipartUpload.uploadPart(partNumber, body);
+
+  // 记录分片信息，供 list-parts 和 complete 使用
+  await env.CDN_BUCKET.put(
+    `${getMultipartStatePrefix(session.uploadId)}parts/${partNumber}`,
+    null,
+    {
+      customMetadata: {
+        etag: uploadedPart.etag,
+        size: contentLength.toString(),
+      },
+    },
+  );
+
+  return jsonResponse(
+    {
+      success: true,
+      data: {
+        key: session.key,
+        uploadId: session.uploadId,
+        partNumber,
+        etag: uploadedPart.etag,
+        size: contentLength,
+      },
+    },
+    200,
+  );
+}
+
+// 完成分片上传
+async function completeMultipartUpload(
+  request: Request,
+  env: Env,
+  url: URL,
+  session: MultipartSession,
+  limit: number,
+): Promise<Response> {
+  const recorded = await listMultipartParts(env, session.uploadId);
+
+  // 客户端可以提交分片列表，未提交时使用服务端记录的全部分片
+  let parts: R2UploadedPart[] = recorded.map(({ partNumber, etag }) => ({
+    partNumber,
+    etag,
+  }));
+
+  if (
+    (request.headers.get('Content-Type') || '').includes('application/json')
+  ) {
+    const body = (await request.json()) as { parts?: R2UploadedPart[] };
+    if (body.parts) {
+      for (const part of body.parts) {
+        const match = recorded.find((r) => r.partNumber === part.partNumber);
+        if (!match || match.etag !== part.etag) {
+          return jsonResponse(
+            {
+              error: `Unknown part: ${part.partNumber}`,
+              code: 'INVALID_PART',
+            },
+            400,
+          );
+        }
       }
-      return key === pattern;
-    });
-
-    if (!pathAllowed) {
-      return { valid: false, error: `Path not allowed for token: ${key}` };
+      parts = body.parts;
     }
   }
 
-  return { valid: true, tokenData };
-}
-
-// 验证文件路径安全性
-function validateFilePath(key: string): { valid: boolean; error?: string } {
-  // 禁止路径遍历攻击
-  if (key.includes('..') || key.includes('//') || key.startsWith('/')) {
-    return { valid: false, error: 'Invalid file path' };
+  if (parts.length === 0) {
+    return jsonResponse({ error: 'No parts uploaded', code: 'NO_PARTS' }, 400);
   }
 
-  // 检查文件扩展名是否在允许列表中
-  const allowedExtensions = Object.keys(CONTENT_TYPES);
-  const ext = key.substring(key.lastIndexOf('.')).toLowerCase();
+  // 客户端提供的 SHA-256（可选）：提供时由 R2 校验并记录在 customMetadata 中
+  const checksum = parseChecksumHeaders(request);
+  if (checksum.error) {
+    return jsonResponse(
+      { error: checksum.error, code: 'INVALID_CHECKSUM' },
+      400,
+    );
+  }
 
-  if (!allowedExtensions.includes(ext)) {
-    return { valid: false, error: 'File type not allowed' };
+  const totalSize = parts.reduce(
+    (sum, part) =>
+      sum + (recorded.find((r) => r.partNumber === part.partNumber)?.size || 0),
+    0,
+  );
+  if (totalSize > limit) {
+    return jsonResponse(
+      {
+        error: `File too large. Maximum size: ${limit} bytes`,
+        code: 'FILE_TOO_LARGE',
+      },
+      413,
+    );
   }
 
-  // 限制路径长度
-  if (key.length > 500) {
-    return { valid: false, error: 'File path too long' };
+  // 检查写入条件（创建会话时的 allowOverwrite 与本次请求的 If-Match / If-None-Match）
+  const conditions = getUploadConditions(
+    request,
+    session.allowOverwrite !== false,
+  );
+  if (conditions) {
+    const existing = await env.CDN_BUCKET.head(session.key);
+    if (!matchesUploadConditions(conditions, existing)) {
+      return createPreconditionFailedResponse(session.key, existing);
+    }
   }
 
-  return { valid: true };
-}
+  // 检查存储配额，预留合并后文件的用量
+  const quotaResult = await reserveStorageQuota(
+    env,
+    session.appName,
+    session.key,
+    totalSize,
+  );
+  if (!quotaResult.reservation) {
+    return quotaResult.response!;
+  }
+  const reservation = quotaResult.reservation;
 
-// 处理文件上传请求
-async function handleUpload(request: Request, env: Env): Promise<Response> {
+  // 合并到临时路径并校验大小和内容，通过后再写入目标路径；校验失败时已有文件保持不变
+  const multipartUpload = env.CDN_BUCKET.resumeMultipartUpload(
+    session.uploadKey,
+    session.uploadId,
+  );
+  let object: R2Object | null = null;
+  let sha256: string | undefined;
+  let failure: Response | null = null;
   try {
-    const url = new URL(request.url);
-    const key = url.pathname.slice(8); // 移除 "/upload/" 前缀
-
-    // 验证上传请求安全性
-    const validation = await validateUploadRequest(request, env, key);
-    if (!validation.valid) {
-      return new Response(
-        JSON.stringify({
-          error: validation.error,
-          code: 'UNAUTHORIZED',
-        }),
-        {
-          status: 401,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
+    const merged = await multipartUpload.complete(parts);
 
-    // 验证文件路径
-    const pathValidation = validateFilePath(key);
-    if (!pathValidation.valid) {
-      return new Response(
-        JSON.stringify({
-          error: pathValidation.error,
-          code: 'INVALID_PATH',
-        }),
+    // 以 R2 实际存储的大小为准再次检查，并校验合并后文件的文件头和文件尾
+    if (merged.size > limit) {
+      failure = jsonResponse(
         {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
-
-    // 获取文件大小限制（优先使用token中的限制）
-    let maxSize = parseInt(env.MAX_FILE_SIZE || '104857600'); // 默认100MB
-    if (validation.tokenData && validation.tokenData.maxFileSize) {
-      maxSize = Math.min(maxSize, validation.tokenData.maxFileSize);
-    }
-
-    // 检查文件大小限制
-    const contentLength = request.headers.get('Content-Length');
-    if (contentLength && parseInt(contentLength) > maxSize) {
-      return new Response(
-        JSON.stringify({
-          error: `File too large. Maximum size: ${maxSize} bytes`,
+          error: `File too large. Maximum size: ${limit} bytes`,
           code: 'FILE_TOO_LARGE',
-        }),
-        {
-          status: 413,
-          headers: { 'Content-Type': 'application/json' },
         },
+        413,
       );
-    }
-
-    // 读取文件数据：根据 Content-Type 判断提取方式
-    let fileData: ArrayBuffer;
-    const requestContentType = request.headers.get('Content-Type') || '';
-
-    if (requestContentType.includes('multipart/form-data')) {
-      // multipart/form-data 表单上传，从 file 字段提取
-      const formData = await request.formData();
-      const file = formData.get('file');
-      if (!file || !(file instanceof File)) {
-        return new Response(
-          JSON.stringify({
-            error: 'Missing "file" field in multipart form data',
-            code: 'MISSING_FILE_FIELD',
-          }),
-          {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          },
-        );
-      }
-      fileData = await file.arrayBuffer();
     } else {
-      // 直接二进制流上传
-      fileData = await request.arrayBuffer();
-    }
-
-    // 再次检查文件大小
-    if (fileData.byteLength > maxSize) {
-      return new Response(
-        JSON.stringify({
-          error: `File too large. Maximum size: ${maxSize} bytes`,
-          code: 'FILE_TOO_LARGE',
-        }),
-        {
-          status: 413,
-          headers: { 'Content-Type': 'application/json' },
-        },
+      const contentCheck = await verifyStoredFileContent(
+        env,
+        session.key,
+        merged.size,
+        session.uploadKey,
       );
+      if (!contentCheck.valid) {
+        failure = createContentMismatchResponse(contentCheck.error);
+      }
     }
 
-    // 检测文件MIME类型
-    const detectedContentType = getContentType(key);
-
-    // 验证文件扩展名（如果有token限制）
-    if (validation.tokenData && validation.tokenData.allowedExtensions) {
-      const fileExt = key.substring(key.lastIndexOf('.')).toLowerCase();
-      if (!validation.tokenData.allowedExtensions.includes(fileExt)) {
-        return new Response(
-          JSON.stringify({
-            error: `File extension not allowed: ${fileExt}. Allowed: ${validation.tokenData.allowedExtensions.join(
-              ', ',
-            )}`,
-            code: 'EXTENSION_NOT_ALLOWED',
-          }),
+    if (!failure) {
+      // 写入目标路径时计算哈希，写入条件由 R2 原子校验
+      const stored = await env.CDN_BUCKET.get(session.uploadKey);
+      if (!stored) throw new Error('Merged multipart object not found');
+      const digest = createDigestVerifyStream(stored.body, checksum.sha256);
+      try {
+        object = await streamUploadToR2(
+          env,
+          session.key,
+          digest.stream,
+          stored.size,
           {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
+            httpMetadata: stored.httpMetadata,
+            customMetadata: {
+              ...stored.customMetadata,
+              ...(checksum.sha256 && { sha256: checksum.sha256 }),
+            },
+            ...(checksum.sha256 && { sha256: checksum.sha256 }),
+            onlyIf: conditions,
           },
         );
+      } catch (error) {
+        if (!digest.state.mismatch) throw error;
+        failure = createChecksumMismatchResponse();
+      }
+      sha256 = digest.state.sha256;
+      if (!object && !failure) {
+        failure = createPreconditionFailedResponse(
+          session.key,
+          await env.CDN_BUCKET.head(session.key),
+        );
       }
     }
+  } catch (error) {
+    await settleStorageReservation(env, reservation, null);
+    throw error;
+  } finally {
+    await env.CDN_BUCKET.delete(session.uploadKey).catch((error) => {
+      console.error('Failed to delete merged multipart object:', error);
+    });
+  }
 
-    // 上传到R2
-    await env.CDN_BUCKET.put(key, fileData, {
-      httpMetadata: {
-        contentType: detectedContentType,
-      },
+  // 分片已合并，会话不能再继续
+  await deleteMultipartState(env, session.uploadId);
+  if (!object) {
+    await settleStorageReservation(env, reservation, null);
+    return failure!;
+  }
+  await settleStorageReservation(env, reservation, object.size);
+
+  // 删除之前生成的预压缩文件（分片上传不生成预压缩文件）
+  await updatePrecompressedFile(env, session.appName, object, null).catch(
+    (error) => {
+      console.error('Precompress error:', error);
+    },
+  );
+
+  // 覆盖已有文件时清除边缘缓存（If-None-Match: * 写入成功说明文件原本不存在）
+  // 变体和预压缩文件总是清除，原文件按协商结果缓存的条目需要更新
+  if (
+    conditions?.get('If-None-Match') !== '*' ||
+    isNegotiatedVariantKey(session.key)
+  ) {
+    await purgeCachedFiles(env, url.origin, [session.key]).catch((error) => {
+      console.error('Cache purge error:', error);
     });
+  }
 
-    // 返回成功响应
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: 'File uploaded successfully',
-        data: {
-          key: key,
-          size: fileData.byteLength,
-          contentType: detectedContentType,
-          url: `${url.origin}/${key}`,
-          timestamp: new Date().toISOString(),
-          // 如果使用了临时token，返回相关信息
-          app: validation.tokenData?.appName || 'unknown',
-        },
-      }),
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      },
-    );
-  } catch (error) {
-    console.error('Upload error:', error);
-    return new Response(
-      JSON.stringify({
-        error: 'Upload failed',
-        message: error instanceof Error ? error.message : 'Unknown error',
-        code: 'UPLOAD_ERROR',
-      }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
+  return jsonResponse(
+    {
+      success: true,
+      message: 'File uploaded successfully',
+      data: {
+        key: session.key,
+        size: object.size,
+        contentType: session.contentType,
+        sha256,
+        etag: object.httpEtag,
+        url: `${url.origin}/${session.key}`,
+        timestamp: new Date().toISOString(),
+        app: session.appName,
       },
-    );
-  }
+    },
+    200,
+  );
 }
 
 export default {
@@ -764,27 +6840,76 @@ export default {
   ): Promise<Response> {
     const url = new URL(request.url);
 
+    // CORS：只回显符合来源策略的 Origin
+    const originScope = getRequestOriginScope(url);
+    const corsOrigin = () =>
+      originScope.scope
+        ? getCorsOrigin(request, env, originScope.scope, originScope.key)
+        : null;
+    const withCors = async (response: Promise<Response>) =>
+      withCorsHeaders(await response, corsOrigin());
+
     // 处理 CORS 预检请求
     if (request.method === 'OPTIONS') {
-      return new Response(null, {
-        status: 200,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, HEAD, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-          'Access-Control-Max-Age': '86400',
-        },
+      const headers = new Headers({
+        'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': getCorsAllowedHeaders(request),
+        'Access-Control-Max-Age': '86400',
       });
+      headers.append('Vary', 'Access-Control-Request-Headers');
+      setCorsHeaders(headers, corsOrigin());
+      return new Response(null, { status: 200, headers });
+    }
+
+    // 处理 Token 吊销请求
+    if (request.method === 'POST' && url.pathname === '/token/revoke') {
+      return withCors(handleTokenRevokeRequest(request, env));
     }
 
     // 处理 Token 生成请求
     if (request.method === 'POST' && url.pathname === '/token') {
-      return handleTokenRequest(request, env);
+      return withCors(handleTokenRequest(request, env));
+    }
+
+    // 处理分片上传请求（create / upload-part / complete / abort / list-parts）
+    if (url.pathname.startsWith('/upload/') && url.searchParams.has('action')) {
+      return withCors(handleMultipartUpload(request, env));
+    }
+
+    // 处理签名URL生成请求
+    if (request.method === 'POST' && url.pathname === '/sign') {
+      return withCors(handleSignRequest(request, env));
+    }
+
+    // 处理文件上传请求（POST /upload 按 Token 的路径模板生成路径）
+    if (
+      request.method === 'POST' &&
+      (url.pathname === '/upload' || url.pathname.startsWith('/upload/'))
+    ) {
+      return withCors(handleUpload(request, env));
+    }
+
+    // 处理清除缓存请求
+    if (request.method === 'POST' && url.pathname === '/purge') {
+      return handlePurgeRequest(request, env);
     }
 
-    // 处理文件上传请求
-    if (request.method === 'POST' && url.pathname.startsWith('/upload/')) {
-      return handleUpload(request, env);
+    // 处理文件删除请求
+    if (
+      request.method === 'DELETE' &&
+      (url.pathname === '/files' || url.pathname.startsWith('/files/'))
+    ) {
+      return withCors(handleDeleteRequest(request, env));
+    }
+
+    // 处理文件列表请求
+    if (request.method === 'GET' && url.pathname === '/list') {
+      return withCors(handleListRequest(request, env));
+    }
+
+    // 处理用量查询请求
+    if (request.method === 'GET' && url.pathname === '/usage') {
+      return withCors(handleUsageRequest(request, env));
     }
 
     // 仅支持 GET 和 HEAD 请求用于文件访问
@@ -806,14 +6931,8 @@ export default {
       );
     }
 
-    // 验证来源（防盗链）
-    const allowedOrigins = env.ALLOWED_ORIGINS || '*';
-    if (!isOriginAllowed(request, allowedOrigins)) {
-      return new Response('Forbidden: Invalid origin', { status: 403 });
-    }
-
     // 获取文件路径（移除开头的 /）
-    const key = url.pathname.slice(1);
+    let key = url.pathname.slice(1);
 
     if (!key) {
       return new Response('Bad Request: No file path provided', {
@@ -821,36 +6940,194 @@ export default {
       });
     }
 
+    // 验证来源（防盗链）
+    if (!checkOriginPolicy(request, env, 'read', key).allowed) {
+      return new Response('Forbidden: Invalid origin', { status: 403 });
+    }
+
+    // 内部状态文件不对外提供访问
+    if (isReservedKey(key)) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    // 受保护路径只能通过有效的签名URL访问（必须在查询缓存之前验证）
+    const requestKey = key;
+    let signedAccess = isProtectedPath(key, env);
+    let signedUrlExpires = 0;
+    let tokenAllowedPaths: string[] | undefined;
+    if (signedAccess) {
+      const access = await verifyProtectedAccess(request, env, url, key, key);
+      if (access.error) return access.error;
+      signedUrlExpires = access.expires!;
+      tokenAllowedPaths = access.allowedPaths;
+    }
+
+    // 静态站点托管：目录路径返回 index 文档，缺少结尾 / 的目录重定向，前端路由回退到站点首页
+    // 按解析后的文件缓存，更新 index 文档时清除的缓存对所有路由都生效
+    const hostingRule = getHostingRule(await getHostingRules(env), key);
+    if (hostingRule) {
+      const resolved = await resolveHostingKey(env, hostingRule, key);
+      if (resolved.redirect) {
+        return new Response(null, {
+          status: 301,
+          headers: {
+            Location: `${url.pathname}/${url.search}`,
+            'Cache-Control': 'public, max-age=300',
+          },
+        });
+      }
+      key = resolved.key;
+
+      // 解析后的文件（目录的 index 文档、SPA 回退的站点首页）同样受保护路径限制
+      if (key !== requestKey && isProtectedPath(key, env)) {
+        if (!signedAccess) {
+          const access = await verifyProtectedAccess(
+            request,
+            env,
+            url,
+            requestKey,
+            key,
+          );
+          if (access.error) return access.error;
+          signedAccess = true;
+          signedUrlExpires = access.expires!;
+        } else if (
+          tokenAllowedPaths &&
+          !isPathAllowed(tokenAllowedPaths, key)
+        ) {
+          return new Response('Forbidden: Path not allowed for token', {
+            status: 403,
+          });
+        }
+      }
+    }
+
     try {
       // 1. 检查 Cloudflare 边缘缓存
       const cache = caches.default;
-      const cacheKey = new Request(url.toString(), {
-        method: 'GET',
-      });
-
-      // 尝试从缓存获取
-      let response = await cache.match(cacheKey);
+      // 图片格式协商：客户端支持时优先返回 <key>.avif / <key>.webp 变体
+      const negotiable = isNegotiableImage(key);
+      const acceptedFormats = negotiable
+        ? getAcceptedImageFormats(request.headers.get('Accept'))
+        : [];
+
+      // 文本文件：客户端支持时优先返回预压缩的 <key>.br / <key>.gz
+      const compressible = isCompressible(key);
+      const acceptEncoding = parseQualityList(
+        request.headers.get('Accept-Encoding'),
+      );
+      const acceptedEncodings = compressible
+        ? PRECOMPRESSED_ENCODINGS.filter(({ encoding }) =>
+            isEncodingAccepted(acceptEncoding, encoding),
+          )
+        : [];
+
+      // 缓存键不含查询参数：受保护内容的所有签名URL共享同一缓存（访问前已完成验证）
+      const cacheKey = getCacheKey(
+        url.origin,
+        key,
+        [
+          ...acceptedFormats,
+          ...acceptedEncodings.map(({ encoding }) => encoding),
+        ].join(','),
+      );
+      const cacheRules = await getCacheRules(env);
+      const ruleBypass = getCachePolicy(cacheRules, key).bypass;
+
+      // Range 请求（仅 GET 有效）
+      const rangeHeader =
+        request.method === 'GET' ? request.headers.get('Range') : null;
+
+      // 尝试从缓存获取（缓存规则设置了 bypass 时跳过）
+      let response = ruleBypass ? undefined : await cache.match(cacheKey);
+
+      // 缓存的响应使用了客户端不支持的内容编码（上传时设置了 Content-Encoding 的文件）
+      const cachedEncoding = response?.headers.get('Content-Encoding');
+      if (
+        cachedEncoding &&
+        !isEncodingAccepted(acceptEncoding, cachedEncoding)
+      ) {
+        response = undefined;
+      }
 
       if (response) {
         console.log(`Cache HIT for: ${key}`);
         // 添加缓存命中标识
         const headers = new Headers(response.headers);
         headers.set('X-Cache-Status', 'HIT');
+        if (signedAccess) {
+          headers.set(
+            'Cache-Control',
+            getSignedUrlCacheControl(signedUrlExpires),
+          );
+          headers.delete('CDN-Cache-Control');
+        }
+        setFileCorsHeaders(headers, request);
+
+        // 从缓存的完整响应中截取请求的范围
+        const cachedSize = parseInt(headers.get('Content-Length') || '', 10);
+        if (
+          rangeHeader &&
+          response.status === 200 &&
+          response.body &&
+          !headers.has('Content-Encoding') &&
+          !isNaN(cachedSize) &&
+          isIfRangeSatisfied(
+            request,
+            headers.get('ETag'),
+            headers.get('Last-Modified'),
+          )
+        ) {
+          const ranges = parseRangeHeader(rangeHeader, cachedSize);
+          if (ranges === 'unsatisfiable') {
+            return createRangeNotSatisfiableResponse(cachedSize, headers);
+          }
+          if (ranges) {
+            return createRangeResponse(
+              ranges,
+              cachedSize,
+              headers,
+              createBodySlicer(response.body),
+            );
+          }
+        }
 
         return new Response(response.body, {
           status: response.status,
           statusText: response.statusText,
           headers,
+          encodeBody: getBodyEncoding(headers),
         });
       }
 
       console.log(`Cache MISS for: ${key}`);
 
-      // 2. 从 R2 获取文件
-      const object = await env.CDN_BUCKET.get(key);
+      // 2. 从 R2 获取文件（Range 请求先只取元数据，再按范围读取），按优先级尝试图片变体和预压缩文件
+      const readObject = (objectKey: string) =>
+        rangeHeader
+          ? env.CDN_BUCKET.head(objectKey)
+          : env.CDN_BUCKET.get(objectKey);
+      const candidates: { suffix: string; encoding?: string }[] = [
+        ...acceptedFormats.map((format) => ({ suffix: `.${format}` })),
+        ...acceptedEncodings,
+      ];
+      let objectKey = key;
+      let precompressedEncoding: string | undefined;
+      let object: R2Object | R2ObjectBody | null = null;
+      for (const candidate of candidates) {
+        object = await readObject(`${key}${candidate.suffix}`);
+        if (object) {
+          objectKey = `${key}${candidate.suffix}`;
+          precompressedEncoding = candidate.encoding;
+          break;
+        }
+      }
+      if (!object) {
+        object = await readObject(key);
+      }
 
       if (!object) {
-        return new Response('Not Found', { status: 404 });
+        return createNotFoundResponse(env, request, hostingRule);
       }
 
       // 检查文件大小（可选）
@@ -859,19 +7136,49 @@ export default {
         return new Response('File Too Large', { status: 413 });
       }
 
+      // 内容编码：预压缩文件按扩展名，其他文件使用上传时设置的 Content-Encoding
+      // 客户端不支持时解压后返回（不写入边缘缓存），无法解压的编码原样返回
+      let contentEncoding =
+        precompressedEncoding || object.httpMetadata?.contentEncoding;
+      const decompress =
+        contentEncoding &&
+        !isEncodingAccepted(acceptEncoding, contentEncoding) &&
+        DECOMPRESSIBLE_ENCODINGS.includes(contentEncoding.toLowerCase())
+          ? (contentEncoding.toLowerCase() as 'gzip' | 'deflate')
+          : null;
+      if (decompress) {
+        contentEncoding = undefined;
+      }
+
+      // 按请求头协商的响应，下游缓存需要区分
+      const vary: string[] = [];
+      if (negotiable) vary.push('Accept');
+      if (compressible || object.httpMetadata?.contentEncoding) {
+        vary.push('Accept-Encoding');
+      }
+
+      // 缓存策略（文件自身的 Cache-Control 优先）
+      const cachePolicy = getCachePolicy(
+        cacheRules,
+        key,
+        object.httpMetadata?.cacheControl,
+      );
+
       // 处理条件请求 (304 Not Modified)
       const ifNoneMatch = request.headers.get('If-None-Match');
       const ifModifiedSince = request.headers.get('If-Modified-Since');
 
       // 检查 ETag 匹配
       if (ifNoneMatch && object.httpEtag && ifNoneMatch === object.httpEtag) {
-        const config = getCacheConfig(key);
         return new Response(null, {
           status: 304,
           headers: {
             ETag: object.httpEtag,
-            'Cache-Control': config.cacheControl,
+            'Cache-Control': signedAccess
+              ? getSignedUrlCacheControl(signedUrlExpires)
+              : cachePolicy.cacheControl,
             'Last-Modified': object.uploaded.toUTCString(),
+            ...(vary.length > 0 && { Vary: vary.join(', ') }),
           },
         });
       }
@@ -883,12 +7190,14 @@ export default {
 
         // 如果文件未修改（精确到秒）
         if (lastModified.getTime() <= modifiedSince.getTime()) {
-          const config = getCacheConfig(key);
           return new Response(null, {
             status: 304,
             headers: {
-              'Cache-Control': config.cacheControl,
+              'Cache-Control': signedAccess
+                ? getSignedUrlCacheControl(signedUrlExpires)
+                : cachePolicy.cacheControl,
               'Last-Modified': object.uploaded.toUTCString(),
+              ...(vary.length > 0 && { Vary: vary.join(', ') }),
             },
           });
         }
@@ -898,46 +7207,57 @@ export default {
       const headers = new Headers();
 
       // Content-Type
+      // 预压缩文件使用原文件的类型
       headers.set(
         'Content-Type',
-        object.httpMetadata?.contentType || getContentType(key),
+        precompressedEncoding
+          ? getContentType(key)
+          : object.httpMetadata?.contentType || getContentType(objectKey),
       );
 
-      // 获取缓存配置
-      const cacheConfig = getCacheConfig(key);
-
       // 缓存控制 - 确保可以被 Cloudflare 边缘缓存
-      headers.set('Cache-Control', cacheConfig.cacheControl);
+      headers.set('Cache-Control', cachePolicy.cacheControl);
 
       // 添加 CDN-Cache-Control 用于 Cloudflare 边缘缓存
       // 这个头部告诉 Cloudflare 如何缓存，即使客户端有不同的要求
       // 根据 Cloudflare 文档，CDN-Cache-Control 优先于 Cache-Control
-      if (key.match(/\.(png|jpg|jpeg|gif|webp|svg|ico|woff|woff2|ttf|otf)$/i)) {
-        // 对于静态资源（图片、字体），使用长期缓存
-        headers.set('CDN-Cache-Control', 'public, max-age=31536000, immutable');
-      } else if (!key.includes('/downloads/')) {
-        // 对于其他非下载文件，使用中等缓存
-        headers.set('CDN-Cache-Control', 'public, max-age=86400');
+      if (cachePolicy.cdnCacheControl) {
+        headers.set('CDN-Cache-Control', cachePolicy.cdnCacheControl);
       }
 
-      // CORS 支持
-      const origin = request.headers.get('Origin');
-      if (origin) {
-        headers.set(
-          'Access-Control-Allow-Origin',
-          allowedOrigins === '*' ? '*' : origin,
-        );
-        headers.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-        headers.set('Access-Control-Max-Age', '86400');
+      // 上传时保存的 HTTP 元数据
+      if (contentEncoding) {
+        headers.set('Content-Encoding', contentEncoding);
+      }
+      if (object.httpMetadata?.contentLanguage) {
+        headers.set('Content-Language', object.httpMetadata.contentLanguage);
       }
 
+      // 自定义元数据通过 X-Meta-* 返回（不包括 Worker 写入的系统元数据）
+      for (const [name, value] of Object.entries(object.customMetadata || {})) {
+        if (SYSTEM_METADATA_KEYS.includes(name)) continue;
+        headers.set(`X-Meta-${name}`, value);
+      }
+
+      // 支持断点续传和视频拖动（按 Content-Encoding 编码存储的文件不支持 Range）
+      headers.set(
+        'Accept-Ranges',
+        contentEncoding || decompress ? 'none' : 'bytes',
+      );
+
       // ETag 支持（用于缓存验证）
       if (object.httpEtag) {
         headers.set('ETag', object.httpEtag);
       }
 
-      // 文件元数据
-      headers.set('Content-Length', object.size.toString());
+      for (const name of vary) {
+        headers.append('Vary', name);
+      }
+
+      // 文件元数据（解压后的长度未知）
+      if (!decompress) {
+        headers.set('Content-Length', object.size.toString());
+      }
       headers.set('Last-Modified', object.uploaded.toUTCString());
 
       // 安全头
@@ -946,30 +7266,105 @@ export default {
       // 添加缓存状态标识
       headers.set('X-Cache-Status', 'MISS');
 
-      // 下载文件设置 Content-Disposition
-      if (key.includes('/downloads/')) {
-        const filename = key.split('/').pop();
+      // Content-Disposition：优先使用上传时保存的值，未保存时 /downloads/ 下的文件按文件名下载
+      if (object.httpMetadata?.contentDisposition) {
         headers.set(
           'Content-Disposition',
-          `attachment; filename="${filename}"`,
+          object.httpMetadata.contentDisposition,
         );
+      } else if (key.includes('/downloads/')) {
+        let filename = key.split('/').pop()!;
+        try {
+          filename = decodeURIComponent(filename);
+        } catch (error) {
+          // 保留原始文件名
+        }
+        headers.set('Content-Disposition', formatContentDisposition(filename));
+      }
+
+      // 受保护内容：写入边缘缓存的响应保留公共缓存头，返回给客户端的响应改为私有缓存
+      // CORS 头只添加到返回给客户端的响应
+      const clientHeaders = new Headers(headers);
+      if (signedAccess) {
+        clientHeaders.set(
+          'Cache-Control',
+          getSignedUrlCacheControl(signedUrlExpires),
+        );
+        clientHeaders.delete('CDN-Cache-Control');
       }
+      setFileCorsHeaders(clientHeaders, request);
 
       // 处理 HEAD 请求
       if (request.method === 'HEAD') {
-        return new Response(null, { headers, status: 200 });
+        return new Response(null, { headers: clientHeaders, status: 200 });
+      }
+
+      // 处理 Range 请求（If-Range 不满足时返回完整文件）
+      if (
+        rangeHeader &&
+        !contentEncoding &&
+        !decompress &&
+        isIfRangeSatisfied(
+          request,
+          object.httpEtag,
+          object.uploaded.toUTCString(),
+        )
+      ) {
+        const ranges = parseRangeHeader(rangeHeader, object.size);
+        if (ranges === 'unsatisfiable') {
+          return createRangeNotSatisfiableResponse(object.size, clientHeaders);
+        }
+        if (ranges) {
+          // 部分内容不写入边缘缓存（Cache API 不接受 206）
+          return createRangeResponse(
+            ranges,
+            object.size,
+            clientHeaders,
+            async (range) => {
+              // 使用 etag 条件，防止读取过程中对象被覆盖导致拼接出不同版本的数据
+              const part = await env.CDN_BUCKET.get(objectKey, {
+                range,
+                onlyIf: { etagMatches: object.etag },
+              });
+              return part && 'body' in part ? part.body : null;
+            },
+          );
+        }
+      }
+
+      // Range 被忽略时需要重新读取完整对象（之前只取了元数据）
+      const fullObject = rangeHeader
+        ? await env.CDN_BUCKET.get(objectKey)
+        : (object as R2ObjectBody);
+      if (!fullObject) {
+        return new Response('Not Found', { status: 404 });
       }
 
       // 创建响应
-      response = new Response(object.body, { headers, status: 200 });
+      response = new Response(
+        decompress
+          ? fullObject.body.pipeThrough(new DecompressionStream(decompress))
+          : fullObject.body,
+        {
+          headers,
+          status: 200,
+          encodeBody: getBodyEncoding(headers),
+        },
+      );
 
       // 存储到 Cloudflare 边缘缓存
       // 使用 ctx.waitUntil() 确保缓存操作不会阻塞响应
       // 根据 Cloudflare 文档，只有 GET 请求可以被缓存
-      ctx.waitUntil(cache.put(cacheKey, response.clone()));
+      if (!cachePolicy.bypass && !decompress) {
+        ctx.waitUntil(cache.put(cacheKey, response.clone()));
+      }
 
       // 返回文件内容
-      return response;
+      return new Response(response.body, {
+        headers: clientHeaders,
+        status: 200,
+        encodeBody: getBodyEncoding(clientHeaders),
+      });
     } catch (error) {
       console.error('Error fetching from R2:', error);
       // 返回更详细的错误信息用于调试
@@ -981,4 +7376,15 @@ export default {
       });
     }
   },
+
+  // 定时任务：按 R2 实际内容校准存储用量
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext,
+  ): Promise<void> {
+    ctx.waitUntil(
+      Promise.all([reconcileStorageUsage(env), cleanupMultipartState(env)]),
+    );
+  },
 };